@@ -0,0 +1,145 @@
+// Reference sync server for WebSocketSync and HttpSync, keeps every change
+// in memory. Run with `npm run sync-server`, PORT defaults to 8080.
+// WebSocket on ws://localhost:PORT, HTTP on http://localhost:PORT/push|pull
+import { createServer } from "node:http";
+import { WebSocketServer } from "ws";
+
+const port = Number(process.env.PORT || 8080);
+
+// Every change ever pushed, the index + 1 is the cursor clients resume from
+const log = [];
+// Identity of each change, an echo of a change we already have is dropped
+const seen = new Set();
+// Connected WebSocket clients by socket, with the site they sync for
+const clients = new Map();
+
+function changeKey(c) {
+  return [c.table, c.pk, c.cid, c.col_version, c.site_id, c.cl].join("|");
+}
+
+// Stores new changes and pushes them to the other WebSocket clients,
+// returns the highest db_version of the push for the ack
+function addChanges(site, changes, sender) {
+  const added = [];
+  for (const change of changes) {
+    const key = changeKey(change);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    log.push({ from: site, change });
+    added.push(change);
+  }
+  console.log(
+    `[sync-server] ${site} pushed ${changes.length} changes, ${added.length} new`
+  );
+
+  if (added.length > 0) {
+    for (const [other, client] of clients) {
+      if (other === sender || client.site === site) continue;
+      send(other, { type: "changes", changes: added, cursor: log.length });
+    }
+  }
+  return Math.max(0, ...changes.map((c) => c.db_version));
+}
+
+// Everything after cursor that didn't come from site
+function changesSince(site, cursor) {
+  const from = Math.max(0, Math.min(Number(cursor) || 0, log.length));
+  return {
+    changes: log
+      .slice(from)
+      .filter((entry) => entry.from !== site)
+      .map((entry) => entry.change),
+    cursor: log.length,
+  };
+}
+
+function send(socket, message) {
+  socket.send(JSON.stringify(message));
+}
+
+function handleSocketMessage(socket, message) {
+  switch (message.type) {
+    case "hello": {
+      clients.set(socket, { site: message.site });
+      const result = changesSince(message.site, message.cursor);
+      send(socket, { type: "changes", ...result });
+      console.log(
+        `[sync-server] ${message.site} connected at ${message.cursor}, sent ${result.changes.length} changes`
+      );
+      break;
+    }
+
+    case "push": {
+      const client = clients.get(socket);
+      if (!client) {
+        send(socket, { type: "error", error: "hello expected first" });
+        break;
+      }
+      const version = addChanges(client.site, message.changes, socket);
+      send(socket, { type: "ack", id: message.id, version });
+      break;
+    }
+
+    default:
+      send(socket, { type: "error", error: `unknown message ${message.type}` });
+  }
+}
+
+function reply(res, status, body) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The app is served from another port
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(JSON.stringify(body));
+}
+
+async function handleRequest(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host}`);
+
+  if (req.method === "OPTIONS") {
+    reply(res, 204, {});
+  } else if (req.method === "POST" && url.pathname === "/push") {
+    let text = "";
+    for await (const chunk of req) text += chunk;
+    const { site, changes } = JSON.parse(text);
+    if (!site || !Array.isArray(changes)) {
+      reply(res, 400, { error: "site and changes required" });
+      return;
+    }
+    reply(res, 200, { version: addChanges(site, changes, null) });
+  } else if (req.method === "GET" && url.pathname === "/pull") {
+    const site = url.searchParams.get("site");
+    if (!site) {
+      reply(res, 400, { error: "site required" });
+      return;
+    }
+    reply(res, 200, changesSince(site, url.searchParams.get("cursor")));
+  } else {
+    reply(res, 404, { error: "not found" });
+  }
+}
+
+const server = createServer((req, res) => {
+  handleRequest(req, res).catch((error) => {
+    console.error("[sync-server] Bad request:", error);
+    reply(res, 400, { error: String(error) });
+  });
+});
+
+new WebSocketServer({ server }).on("connection", (socket) => {
+  socket.on("message", (data) => {
+    try {
+      handleSocketMessage(socket, JSON.parse(String(data)));
+    } catch (error) {
+      console.error("[sync-server] Bad message:", error);
+      send(socket, { type: "error", error: String(error) });
+    }
+  });
+  socket.on("close", () => clients.delete(socket));
+});
+
+server.listen(port, () => {
+  console.log(`[sync-server] Listening on ws://localhost:${port} and http://localhost:${port}`);
+});
@@ -11,7 +11,7 @@ interface AppState {
 }
 
 function App() {
-  const { dbStatus, error, client: tabSync, setError, retryInitialization, getWorkerSiteId } = useCRSqliteQuery();
+  const { dbStatus, error, needsReload, syncProgress, client: tabSync, setError, retryInitialization, getWorkerSiteId } = useCRSqliteQuery();
   
   const [appState, setAppState] = useState<AppState>({
     selectedList: '',
@@ -124,6 +124,12 @@ function App() {
     return (
       <div className="app">
         <div className="loading">Initializing TanStack Query + CRSqlite...</div>
+        {syncProgress && syncProgress.total > 0 && (
+          <div className="loading">
+            <progress value={syncProgress.received} max={syncProgress.total} />{' '}
+            Loading changes {syncProgress.received} / {syncProgress.total}
+          </div>
+        )}
       </div>
     );
   }
@@ -135,9 +141,15 @@ function App() {
         <div className="error">
           <strong>Database Error:</strong> {error}
         </div>
-        <button className="btn btn-primary" onClick={retryInitialization}>
-          Retry Initialization
-        </button>
+        {needsReload ? (
+          <button className="btn btn-primary" onClick={() => window.location.reload()}>
+            Reload Page
+          </button>
+        ) : (
+          <button className="btn btn-primary" onClick={retryInitialization}>
+            Retry Initialization
+          </button>
+        )}
       </div>
     );
   }
@@ -163,6 +175,11 @@ function App() {
       {error && (
         <div className="error">
           <strong>Error:</strong> {error}
+          {needsReload && (
+            <button onClick={() => window.location.reload()} style={{ marginLeft: '10px' }}>
+              Reload
+            </button>
+          )}
           <button onClick={() => setError(null)} style={{ float: 'right' }}>×</button>
         </div>
       )}
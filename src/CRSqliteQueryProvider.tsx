@@ -9,18 +9,57 @@ import {
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import type { DB } from "@vlcn.io/crsqlite-wasm";
 import { CRSqliteWorkerClientBrowser } from "./worker/CRSqliteWorkerClientBrowser";
+import {
+  CRSqliteWorkerError,
+  RequestOptions,
+  SyncProgress,
+} from "./worker/CRSqliteWorkerClientBase";
+import type { SyncStatus, TxStatement } from "./worker/CRSqliteWorkerBase";
+import {
+  CHANGESET_FILE_EXTENSION,
+  ChangesetFileHeader,
+} from "./worker/changesetFile";
 
 type DbStatus = "initializing" | "ready" | "error";
 
 interface CRSqliteQueryContextType {
   dbStatus: DbStatus;
   error: string | null;
+  // Worker runs different code than this tab, only a reload can fix it
+  needsReload: boolean;
+  // Hydration progress of the current sync, null before the first chunk
+  syncProgress: SyncProgress | null;
   db: DB | null;
   client: CRSqliteWorkerClientBrowser | null;
   setError: (error: string | null) => void;
   retryInitialization: () => Promise<void>;
-  dbExec: (sql: string, args?: any[]) => Promise<any>;
+  dbExec: (sql: string, args?: any[], options?: RequestOptions) => Promise<any>;
+  dbExecO: <T extends {}>(
+    sql: string,
+    args?: any[],
+    options?: RequestOptions
+  ) => Promise<T[]>;
+  dbExecA: <T extends any[] = any[]>(
+    sql: string,
+    args?: any[],
+    options?: RequestOptions
+  ) => Promise<T[]>;
+  dbQuery: <T extends {}>(
+    sql: string,
+    args?: any[],
+    options?: RequestOptions
+  ) => Promise<T[]>;
+  dbTx: (statements: TxStatement[], options?: RequestOptions) => Promise<any[]>;
   getWorkerSiteId: () => Uint8Array | null;
+  // Remote sync queue depth and next retry, from the worker
+  getSyncStatus: (options?: RequestOptions) => Promise<SyncStatus>;
+  // Saves the changes as a file for importChanges in another browser, only
+  // those after the export whose header is given
+  exportChanges: (
+    after?: ChangesetFileHeader,
+    options?: RequestOptions
+  ) => Promise<ChangesetFileHeader>;
+  importChanges: (file: Blob, options?: RequestOptions) => Promise<number>;
 }
 
 const CRSqliteQueryContext = createContext<
@@ -31,6 +70,8 @@ interface CRSqliteQueryProviderProps {
   children: ReactNode;
   sharedWorkerUrl?: string;
   dedicatedWorkerUrl?: string;
+  // Database the worker opens, providers with different names don't sync
+  dbName?: string;
   createDB: () => Promise<DB>;
   closeDB: (db: DB) => Promise<void>;
   queryClient: QueryClient;
@@ -42,6 +83,7 @@ export function CRSqliteQueryProvider({
   children,
   sharedWorkerUrl,
   dedicatedWorkerUrl,
+  dbName,
   createDB,
   closeDB,
   queryClient,
@@ -50,6 +92,10 @@ export function CRSqliteQueryProvider({
 }: CRSqliteQueryProviderProps) {
   const [dbStatus, setDbStatus] = useState<DbStatus>("initializing");
   const [error, setError] = useState<string | null>(null);
+  const [needsReload, setNeedsReload] = useState(false);
+  const [syncProgress, setSyncProgress] = useState<SyncProgress | null>(
+    null
+  );
   const [db, setDb] = useState<DB | null>(null);
   const [client, setClient] = useState<CRSqliteWorkerClientBrowser | null>(
     null
@@ -92,6 +138,7 @@ export function CRSqliteQueryProvider({
         db: database,
         sharedWorkerUrl,
         dedicatedWorkerUrl,
+        dbName,
         onTablesChanged: onRemoteChanges,
       });
 
@@ -106,11 +153,26 @@ export function CRSqliteQueryProvider({
         console.log("[CRSqliteQueryProvider] Sync data received");
       });
 
-      sync.onErrorOccurred((errorMsg) => {
+      sync.onSyncProgress((progress) => {
+        setSyncProgress(progress);
+      });
+
+      // Affected queries are already invalidated through onTablesChanged
+      sync.onResynced((info) => {
+        console.log(
+          `[CRSqliteQueryProvider] Resynced after ${info.reason}, ${info.applied} changes applied`
+        );
+      });
+
+      sync.onErrorOccurred((errorMsg, cause) => {
         setError(errorMsg);
+        if (cause?.code === "VERSION_MISMATCH") {
+          setNeedsReload(true);
+        }
       });
 
-      // Start synchronization
+      // Start synchronization, resolves after the initial sync has been
+      // applied so we stay "initializing" until the data is there
       await sync.start();
 
       setClient(sync);
@@ -120,6 +182,12 @@ export function CRSqliteQueryProvider({
     } catch (err) {
       setDbStatus("error");
       setError((err as Error).message);
+      if (
+        err instanceof CRSqliteWorkerError &&
+        err.code === "VERSION_MISMATCH"
+      ) {
+        setNeedsReload(true);
+      }
       console.error("[CRSqliteQueryProvider] Initialization failed:", err);
     }
   };
@@ -134,26 +202,122 @@ export function CRSqliteQueryProvider({
     await initializeDatabase();
   };
 
-  const dbExec = async (sql: string, args: any[] = []): Promise<any> => {
+  const dbExec = async (
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<any> => {
+    if (!client || !db) {
+      throw new Error("Database or TabSync not available");
+    }
+    return client.dbExec(sql, args, options);
+  };
+
+  const dbExecO = async <T extends {}>(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<T[]> => {
+    if (!client || !db) {
+      throw new Error("Database or TabSync not available");
+    }
+    return client.dbExecO<T>(sql, args, options);
+  };
+
+  const dbExecA = async <T extends any[] = any[]>(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<T[]> => {
     if (!client || !db) {
       throw new Error("Database or TabSync not available");
     }
-    return client.dbExec(sql, args);
+    return client.dbExecA<T>(sql, args, options);
+  };
+
+  const dbQuery = async <T extends {}>(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<T[]> => {
+    if (!client || !db) {
+      throw new Error("Database or TabSync not available");
+    }
+    return client.dbQuery<T>(sql, args, options);
+  };
+
+  const dbTx = async (
+    statements: TxStatement[],
+    options?: RequestOptions
+  ): Promise<any[]> => {
+    if (!client || !db) {
+      throw new Error("Database or TabSync not available");
+    }
+    return client.dbTx(statements, options);
   };
 
   const getWorkerSiteId = (): Uint8Array | null => {
     return client?.getWorkerSiteId() || null;
   };
 
+  const getSyncStatus = async (
+    options?: RequestOptions
+  ): Promise<SyncStatus> => {
+    if (!client) {
+      throw new Error("TabSync not available");
+    }
+    return client.getSyncStatus(options);
+  };
+
+  const exportChanges = async (
+    after?: ChangesetFileHeader,
+    options?: RequestOptions
+  ): Promise<ChangesetFileHeader> => {
+    if (!client) {
+      throw new Error("TabSync not available");
+    }
+    const { file, header } = await client.exportChanges(after, options);
+
+    // Download through a temporary link
+    const url = URL.createObjectURL(file);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${dbName ?? "changes"}-${new Date(header.createdAt)
+      .toISOString()
+      .replace(/[:.]/g, "-")}${CHANGESET_FILE_EXTENSION}`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url));
+    return header;
+  };
+
+  const importChanges = async (
+    file: Blob,
+    options?: RequestOptions
+  ): Promise<number> => {
+    if (!client) {
+      throw new Error("TabSync not available");
+    }
+    return client.importChanges(file, options);
+  };
+
   const contextValue: CRSqliteQueryContextType = {
     dbStatus,
     error,
+    needsReload,
+    syncProgress,
     db,
     client,
     setError,
     retryInitialization,
     dbExec,
+    dbExecO,
+    dbExecA,
+    dbQuery,
+    dbTx,
     getWorkerSiteId,
+    getSyncStatus,
+    exportChanges,
+    importChanges,
   };
 
   return (
@@ -3,31 +3,22 @@ import { useQuery } from "@tanstack/react-query";
 import type { DB } from "@vlcn.io/crsqlite-wasm";
 import { qk } from "./queryKeys";
 import { useCRSqliteQuery } from "./CRSqliteQueryProvider";
+import type { Change } from "./worker/CRSqliteWorkerBase";
 
-interface TodoList {
+export type { Change };
+
+export interface TodoList {
   name: string;
   creation_time: number;
 }
 
-interface Todo {
+export interface Todo {
   id: string;
   list: string;
   text: string;
   complete: number;
 }
 
-interface Change {
-  table: string;
-  pk: Uint8Array;
-  cid: string;
-  val: any;
-  col_version: number;
-  db_version: number;
-  site_id: Uint8Array;
-  cl: number;
-  seq: number;
-}
-
 export function useTodoLists() {
   const { db } = useCRSqliteQuery();
   return useQuery({
@@ -95,15 +95,15 @@ export function useAddTodoListRemote() {
 }
 
 export function useDeleteTodoListRemote() {
-  const { dbExec } = useCRSqliteQuery();
+  const { dbTx } = useCRSqliteQuery();
   
   return useMutation({
     mutationFn: async ({ name }: { name: string }) => {
-      // Delete all todos in this list first
-      await dbExec("DELETE FROM todo WHERE list = ?", [name]);
-      
-      // Then delete the list itself
-      await dbExec("DELETE FROM todo_list WHERE name = ?", [name]);
+      // Delete all todos in this list first, then the list itself, atomically
+      await dbTx([
+        { sql: "DELETE FROM todo WHERE list = ?", args: [name] },
+        { sql: "DELETE FROM todo_list WHERE name = ?", args: [name] },
+      ]);
       
       return name;
     },
@@ -3,6 +3,7 @@ import ReactDOM from "react-dom/client";
 import App from "./App-remote";
 import { CRSqliteQueryProvider } from "./CRSqliteQueryProvider";
 import { createDB, closeDB } from "./databaseFactory";
+import { DEFAULT_DB_NAME } from "./worker/CRSqliteWorkerBase";
 import "./index.css";
 // @ts-ignore
 import sharedWorkerUrl from "./shared-worker-v3.ts?sharedworker&url";
@@ -19,6 +20,7 @@ ReactDOM.createRoot(document.getElementById("root")!).render(
     <CRSqliteQueryProvider
       sharedWorkerUrl={sharedWorkerUrl}
       dedicatedWorkerUrl={dedicatedWorkerUrl}
+      dbName={DEFAULT_DB_NAME}
       createDB={() => createDB(":memory:")}
       closeDB={closeDB}
       queryClient={queryClient}
@@ -2,6 +2,11 @@
 import { CRSqliteSharedWorker } from './worker/CRSqliteSharedWorker';
 import { createDB } from './databaseFactory';
 import { DB } from '@vlcn.io/crsqlite-wasm';
+import { DEFAULT_DB_NAME } from './worker/CRSqliteWorkerBase';
+import { WebSocketSync } from './worker/WebSocketSync';
+import { HttpSync } from './worker/HttpSync';
+import { NostrSync, PoolRelayClient } from './worker/NostrSync';
+import { hexToBytes } from './worker/RemoteSync';
 
 const initializeWorker = async () => {
   try {
@@ -9,9 +14,31 @@ const initializeWorker = async () => {
     
     // Create and initialize TestDB
     let db: DB | undefined;
+
+    // The tab names the shared worker after the database it should open
+    const dbName = self.name || DEFAULT_DB_NAME;
     
     // Create CRSqliteSharedWorker with the DB instance
-    const worker = new CRSqliteSharedWorker(() => db!);
+    // Changes go over the db-sync channel unless ports delivery is asked for
+    const worker = new CRSqliteSharedWorker(() => db!, {
+      delivery: import.meta.env.VITE_WORKER_DELIVERY || 'broadcast',
+      dbName,
+    });
+    
+    // Cross-device sync, see server/sync-server.js
+    if (import.meta.env.VITE_SYNC_WS_URL) {
+      worker.addRemote(new WebSocketSync({ url: import.meta.env.VITE_SYNC_WS_URL }));
+    }
+    if (import.meta.env.VITE_SYNC_HTTP_URL) {
+      worker.addRemote(new HttpSync({ url: import.meta.env.VITE_SYNC_HTTP_URL }));
+    }
+    if (import.meta.env.VITE_NOSTR_RELAYS && import.meta.env.VITE_NOSTR_SECRET_KEY) {
+      worker.addRemote(new NostrSync({
+        secretKey: hexToBytes(import.meta.env.VITE_NOSTR_SECRET_KEY),
+        relay: new PoolRelayClient(import.meta.env.VITE_NOSTR_RELAYS.split(',')),
+        dbName,
+      }));
+    }
     
     // Set up connection handler immediately (no awaits above it)
     self.addEventListener('connect', (event: any) => {
@@ -20,7 +47,7 @@ const initializeWorker = async () => {
     });
 
     // Init db
-    db = await createDB("test.db");
+    db = await createDB(dbName);
 
     // Start the worker, now it will process the pending connects
     await worker.start();
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // WebSocket sync server the worker connects to, sync is off without it
+  readonly VITE_SYNC_WS_URL?: string;
+  // HTTP sync server base URL, for networks without WebSockets
+  readonly VITE_SYNC_HTTP_URL?: string;
+  // Comma separated relay URLs and the hex secret key shared by the devices
+  readonly VITE_NOSTR_RELAYS?: string;
+  readonly VITE_NOSTR_SECRET_KEY?: string;
+  // "ports" sends changes through the shared worker's tab ports instead
+  // of the db-sync channel
+  readonly VITE_WORKER_DELIVERY?: "broadcast" | "ports";
+}
@@ -2,17 +2,40 @@
 import { createDB } from "./databaseFactory";
 import type { DB } from "@vlcn.io/crsqlite-wasm";
 import { CRSqliteDedicatedWorker } from "./worker/CRSqliteDedicatedWorker";
+import { DEFAULT_DB_NAME } from "./worker/CRSqliteWorkerBase";
+import { WebSocketSync } from "./worker/WebSocketSync";
+import { HttpSync } from "./worker/HttpSync";
+import { NostrSync, PoolRelayClient } from "./worker/NostrSync";
+import { hexToBytes } from "./worker/RemoteSync";
 
 async function main() {
   console.log('[Worker] Initializing...');
   let db: DB | undefined;
   const getDB = () => db!;
 
+  // The tab names the worker after the database it should open
+  const dbName = self.name || DEFAULT_DB_NAME;
+
   // Create ASAP to make sure 'message' handler is attached early
-  const worker = new CRSqliteDedicatedWorker(getDB);
+  const worker = new CRSqliteDedicatedWorker(getDB, { dbName });
+
+  // Cross-device sync, see server/sync-server.js
+  if (import.meta.env.VITE_SYNC_WS_URL) {
+    worker.addRemote(new WebSocketSync({ url: import.meta.env.VITE_SYNC_WS_URL }));
+  }
+  if (import.meta.env.VITE_SYNC_HTTP_URL) {
+    worker.addRemote(new HttpSync({ url: import.meta.env.VITE_SYNC_HTTP_URL }));
+  }
+  if (import.meta.env.VITE_NOSTR_RELAYS && import.meta.env.VITE_NOSTR_SECRET_KEY) {
+    worker.addRemote(new NostrSync({
+      secretKey: hexToBytes(import.meta.env.VITE_NOSTR_SECRET_KEY),
+      relay: new PoolRelayClient(import.meta.env.VITE_NOSTR_RELAYS.split(",")),
+      dbName,
+    }));
+  }
 
   // Init DB AFTER wiring connect handler so early messages are delivered
-  db = await createDB("test.db");
+  db = await createDB(dbName);
   await worker.start();
 
   console.log('[Worker] Initialized successfully');
@@ -1,13 +1,13 @@
 /// <reference lib="webworker" />
 // Reusable CRSqlite Shared Worker class
 import { DB } from "@vlcn.io/crsqlite-wasm";
-import { CRSqliteWorkerBase, WorkerResponse } from "./CRSqliteWorkerBase";
+import { CRSqliteWorkerBase, CRSqliteWorkerOptions } from "./CRSqliteWorkerBase";
 
 export class CRSqliteDedicatedWorker extends CRSqliteWorkerBase {
   private pending: MessageEvent[] = [];
 
-  constructor(db: DB | (() => DB)) {
-    super(db);
+  constructor(db: DB | (() => DB), options?: CRSqliteWorkerOptions) {
+    super(db, options);
 
     // Immediately
     globalThis.addEventListener("message", (m) => {
@@ -19,10 +19,7 @@ export class CRSqliteDedicatedWorker extends CRSqliteWorkerBase {
   async start(): Promise<void> {
     await super.start();
     try {
-      globalThis.postMessage({
-        type: "ready",
-        siteId: this.workerSiteId,
-      } as WorkerResponse);
+      globalThis.postMessage(this.getReadyMessage());
 
       for (const m of this.pending) this.handleClientMessage(m.data, globalThis);
       this.pending.length = 0;
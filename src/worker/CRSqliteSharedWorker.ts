@@ -1,12 +1,31 @@
 // Reusable CRSqlite Shared Worker class
 import { DB } from "@vlcn.io/crsqlite-wasm";
-import { CRSqliteWorkerBase, WorkerResponse } from "./CRSqliteWorkerBase";
+import {
+  BroadcastMessage,
+  CRSqliteWorkerBase,
+  CRSqliteWorkerOptions,
+  DeliveryMode,
+  WorkerResponse,
+  WorkerResponsePort,
+} from "./CRSqliteWorkerBase";
+
+export interface CRSqliteSharedWorkerOptions extends CRSqliteWorkerOptions {
+  // Defaults to "broadcast"
+  delivery?: DeliveryMode;
+}
 
 export class CRSqliteSharedWorker extends CRSqliteWorkerBase {
   private pendingPorts: MessagePort[] = [];
+  // Tabs that finished the handshake, targets of ports delivery
+  private ports = new Set<WorkerResponsePort>();
+  private delivery: DeliveryMode;
 
-  constructor(db: DB | (() => DB)) {
-    super(db);
+  constructor(
+    db: DB | (() => DB),
+    { delivery = "broadcast", ...options }: CRSqliteSharedWorkerOptions = {}
+  ) {
+    super(db, options);
+    this.delivery = delivery;
   }
 
   async start(): Promise<void> {
@@ -56,17 +75,55 @@ export class CRSqliteSharedWorker extends CRSqliteWorkerBase {
     );
 
     port.addEventListener("message", (m) => this.handleClientMessage(m.data, port));
+    // Fired by browsers that support it when the tab goes away
+    port.addEventListener("close", () => this.releasePort(port));
 
     port.start();
 
-    port.postMessage({
-      type: "ready",
-      siteId: this.workerSiteId,
-    } as WorkerResponse);
+    this.ports.add(port);
+    port.postMessage(this.getReadyMessage());
+  }
+
+  protected getReadyMessage(): WorkerResponse {
+    return { ...super.getReadyMessage(), delivery: this.delivery };
+  }
+
+  // Same port as the replies, so a tab sees changes before the exec-reply
+  // of the request that made them
+  protected deliver(
+    message: BroadcastMessage,
+    sender?: WorkerResponsePort
+  ): void {
+    if (this.delivery !== "ports") {
+      super.deliver(message, sender);
+      return;
+    }
+
+    for (const port of this.ports) {
+      // The sender already has the changes, it only needs the seq and
+      // where they landed
+      const broadcast: BroadcastMessage =
+        port === sender
+          ? {
+              type: message.type,
+              sourceTabId: message.sourceTabId,
+              seq: message.seq,
+              epoch: message.epoch,
+              versions: message.versions,
+            }
+          : message;
+      port.postMessage({ type: "broadcast", broadcast });
+    }
+  }
+
+  protected async releasePort(port: WorkerResponsePort): Promise<void> {
+    this.ports.delete(port);
+    await super.releasePort(port);
   }
 
   stop(): void {
     super.stop();
     this.pendingPorts.length = 0;
+    this.ports.clear();
   }
 }
@@ -1,5 +1,51 @@
 // Reusable CRSqlite Shared Worker class
 import { DB } from "@vlcn.io/crsqlite-wasm";
+import {
+  ChangesetCompression,
+  ChangesetPayload,
+  CompressionStats,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  FALLBACK_COMPRESSION,
+  packChangeset,
+  pickCompression,
+  supportedCompressions,
+  unpackChangeset,
+} from "./compression";
+import { readChangesetFile, writeChangesetFile } from "./changesetFile";
+import { PeerTracker } from "./PeerTracker";
+import type { RemoteSync, RemoteSyncHost } from "./RemoteSync";
+import { SyncQueueStatus, SyncScheduler } from "./SyncScheduler";
+import { computeSchemaHash } from "./schemaHash";
+import {
+  columnNames,
+  isSingleStatement,
+  StatementCache,
+  StatementCacheStats,
+  TX,
+} from "./StatementCache";
+import {
+  BroadcastChannelTransport,
+  SyncTransport,
+  syncChannelName,
+} from "./SyncTransport";
+
+// Bump whenever the worker <-> tab message format changes
+export const PROTOCOL_VERSION = 10;
+
+// What the worker entry points open when no name is given
+export const DEFAULT_DB_NAME = "test.db";
+
+// Peer name of the db-sync channel in the tracking table
+const BROADCAST_PEER = "broadcast";
+
+// Tabs are tracked under their site id, remotes under names with a scheme
+const SITE_PEER = /^[0-9A-F]+$/;
+
+// Changes per sync-data message, keeps each one well below structured
+// clone limits and lets tabs show progress
+const SYNC_CHUNK_SIZE = 1000;
+
+export const INSERT_CHANGE_SQL = `INSERT INTO crsql_changes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`;
 
 export interface Change {
   table: string;
@@ -13,42 +59,238 @@ export interface Change {
   seq: number;
 }
 
+// Upper-case hex site_id -> highest db_version received from that site,
+// versions are the ones recorded in the worker's database
+export type VersionVector = Record<string, number>;
+
+export function siteIdHex(siteId: Uint8Array): string {
+  return Array.from(siteId)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+}
+
+// none -> exec, rows -> execA, objects -> execO
+export type ResultMode = "none" | "rows" | "objects";
+
+export interface TxStatement {
+  sql: string;
+  args?: any[];
+  resultMode?: ResultMode;
+}
+
 export interface WorkerMessage {
-  type: "sync" | "exec";
+  type:
+    | "sync"
+    | "exec"
+    | "tx"
+    | "query"
+    | "cancel"
+    | "cursor-open"
+    | "cursor-fetch"
+    | "cursor-close"
+    | "subscribe"
+    | "unsubscribe"
+    | "changes"
+    | "sync-status"
+    | "export"
+    | "import"
+    | "disconnect";
+  // sync: unused, changes: the BroadcastMessage when delivered over ports
   data?: any;
   sql?: string;
   args?: any[];
+  resultMode?: ResultMode;
+  statements?: TxStatement[];
+  cursorId?: string;
+  count?: number;
+  subscriptionId?: string;
+  versions?: VersionVector;
+  siteId?: Uint8Array;
   requestId?: string;
+  // sync: the compressions the tab can read
+  compressions?: ChangesetCompression[];
+  // import: a file made by the export command, see changesetFile.ts
+  file?: ArrayBuffer;
+  // export: the worker site whose earlier export the versions come from
+  exportedBy?: string;
+}
+
+export interface CursorOpenResult {
+  cursorId: string;
+  columns: string[];
+}
+
+export interface CursorFetchResult {
+  rows: any[][];
+  done: boolean;
+}
+
+export interface SubscribeResult {
+  subscriptionId: string;
+  tables: string[];
 }
 
 export interface WorkerResponse {
-  type: "sync-data" | "error" | "exec-reply" | "ready";
-  changes?: Change[];
+  type:
+    | "sync-data"
+    | "sync-complete"
+    | "error"
+    | "exec-reply"
+    | "ready"
+    | "cancel-ack"
+    | "subscription-data"
+    | "broadcast";
+  // sync-data: the chunk's changes, see changeset.ts
+  changeset?: ArrayBuffer;
+  // sync-data: how the changeset is compressed
+  compression?: ChangesetCompression;
+  // ready: the compressions the worker reads and writes, best first. Tabs
+  // compress their changes with one of them above the threshold.
+  compressions?: ChangesetCompression[];
+  compressionThreshold?: number;
   error?: string;
   result?: any;
   requestId?: string;
   siteId?: Uint8Array;
+  protocolVersion?: number;
+  schemaHash?: string;
+  subscriptionId?: string;
+  receivedVersion?: number;
+  // sync-data chunk index, and total number of changes in the sync
+  chunk?: number;
+  total?: number;
+  // sync-complete: broadcast position the synced changes cover
+  seq?: number;
+  epoch?: string;
+  // ready: how the worker delivers changes to tabs
+  delivery?: DeliveryMode;
+  // broadcast: a db-sync message routed through the tab's port
+  broadcast?: BroadcastMessage;
 }
 
+// broadcast: changes fan out over the db-sync BroadcastChannel
+// ports: the worker sends them through each connected tab's port
+export type DeliveryMode = "broadcast" | "ports";
+
 export interface BroadcastMessage {
-  type: "changes" | "changes-applied";
-  data: Change[];
+  type: "changes" | "changes-applied" | "changes-ack";
+  // Encoded with encodeChangeset, then maybe compressed
+  changeset?: ArrayBuffer;
+  compression?: ChangesetCompression;
   sourceTabId?: string;
+  // changes: the sender's version the batch continues from, echoed in the
+  // ack together with the highest version it stored
+  sinceVersion?: number;
+  ackVersion?: number;
+  // Set on worker broadcasts, numbered without gaps within one epoch
+  seq?: number;
+  epoch?: string;
+  // changes-applied: per originating site, the worker's db_version the
+  // changes got. Tabs that missed no broadcast advance their version
+  // vector with it.
+  versions?: VersionVector;
 }
 
 export interface WorkerResponsePort {
-  postMessage: (response: WorkerResponse) => void;
+  // Buffers in options.transfer move to the receiver instead of being copied
+  postMessage: (
+    response: WorkerResponse,
+    options?: StructuredSerializeOptions
+  ) => void;
+}
+
+export interface CRSqliteWorkerOptions {
+  // Names the default sync channel, must match the tabs' dbName
+  dbName?: string;
+  // Defaults to a BroadcastChannel named after dbName
+  transport?: SyncTransport;
+  // Compress large changesets, default true
+  compression?: boolean;
+  // Encoded size in bytes from which changesets are compressed
+  compressionThreshold?: number;
+}
+
+// Queue of the remotes, and how much compression saved on changesets
+export interface SyncStatus extends SyncQueueStatus {
+  compression: CompressionStats;
+}
+
+type Stmt = Awaited<ReturnType<DB["prepare"]>>;
+
+interface WorkerCursor {
+  port: WorkerResponsePort;
+  stmt: Stmt;
+  rows: AsyncIterator<any[]>;
+}
+
+interface WorkerSubscription {
+  port: WorkerResponsePort;
+  sql: string;
+  args: any[];
+  resultMode: ResultMode;
+  tables: Set<string>;
+  // Serialized last result, unchanged results aren't pushed again
+  lastResult: string | null;
 }
 
 export class CRSqliteWorkerBase {
   private _db: DB | (() => DB);
-  private broadcastChannel: BroadcastChannel | null = null;
+  private dbName: string;
+  // Given to the constructor, or a BroadcastChannel created on start
+  private configuredTransport: SyncTransport | null;
+  private transport: SyncTransport | null = null;
+  private unsubscribeTransport: (() => void) | null = null;
   protected isStarted = false;
-  private lastDbVersion = 0;
+  // What was sent to and received from each peer, survives restarts
+  protected peers: PeerTracker;
   protected workerSiteId: Uint8Array | null = null;
+  protected schemaHash: string | null = null;
+  // Requests being handled, and those a tab gave up on meanwhile
+  private inFlightRequests = new Set<string>();
+  private cancelledRequests = new Set<string>();
+  // Open cursors, freed when their tab closes them or disconnects
+  private cursors = new Map<string, WorkerCursor>();
+  private cursorCounter = 0;
+  // Live queries re-run when a change touches one of their tables
+  private subscriptions = new Map<string, WorkerSubscription>();
+  private subscriptionCounter = 0;
+  protected statements = new StatementCache(() => this.db);
+  // Broadcast numbering restarts with every worker instance
+  private readonly epoch = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  private broadcastSeq = 0;
+  // Servers and other replicas outside the browser, and the queue of
+  // changesets going out to them
+  private remotes: RemoteSync[] = [];
+  private scheduler: SyncScheduler;
+  private compressionStats: CompressionStats;
+  // Site of the tab behind each port, its rows go when the port does
+  private portSites = new Map<WorkerResponsePort, string>();
 
-  constructor(db: DB | (() => DB)) {
+  constructor(
+    db: DB | (() => DB),
+    {
+      dbName = DEFAULT_DB_NAME,
+      transport,
+      compression = true,
+      compressionThreshold = DEFAULT_COMPRESSION_THRESHOLD,
+    }: CRSqliteWorkerOptions = {}
+  ) {
     this._db = db;
+    this.dbName = dbName;
+    this.configuredTransport = transport || null;
+    this.compressionStats = {
+      formats: compression ? supportedCompressions() : [],
+      threshold: compressionThreshold,
+      payloads: 0,
+      compressed: 0,
+      bytesBefore: 0,
+      bytesAfter: 0,
+    };
+    this.peers = new PeerTracker(() => this.db);
+    this.scheduler = new SyncScheduler(() => this.db, this.peers, (dbVersion) =>
+      this.getChangesSince(undefined, dbVersion)
+    );
   }
 
   get db() {
@@ -64,14 +306,17 @@ export class CRSqliteWorkerBase {
       // Initialize last db version before starting to send messages
       await this.initialize();
 
-      // Initialize broadcast channel for tab communication
-      this.broadcastChannel = new BroadcastChannel("db-sync");
-      this.broadcastChannel.addEventListener(
-        "message",
+      // Initialize transport for tab communication
+      this.transport =
+        this.configuredTransport ||
+        new BroadcastChannelTransport(syncChannelName(this.dbName));
+      this.unsubscribeTransport = this.transport.subscribe(
         this.handleBroadcastMessage.bind(this)
       );
 
       this.isStarted = true;
+      for (const remote of this.remotes) this.startRemote(remote);
+      this.scheduler.start();
       console.log("[CRSqliteWorkerBase] Started successfully");
     } catch (error) {
       console.error("[CRSqliteWorkerBase] Failed to start:", error);
@@ -80,26 +325,131 @@ export class CRSqliteWorkerBase {
     }
   }
 
+  // Keeps a remote replica in sync with this worker, started with the worker
+  addRemote(remote: RemoteSync): void {
+    this.remotes.push(remote);
+    this.scheduler.addRemote(remote);
+    if (this.isStarted) this.startRemote(remote);
+  }
+
+  private startRemote(remote: RemoteSync): void {
+    const host: RemoteSyncHost = {
+      siteIdHex: siteIdHex(this.workerSiteId!),
+      peers: this.peers,
+      applyRemoteChanges: (changes) => this.applyRemoteChanges(changes),
+      flush: () => this.scheduler.flush(),
+    };
+    remote.start(host).catch((error) =>
+      console.error("[CRSqliteWorkerBase] Failed to start remote sync:", error)
+    );
+  }
+
+  // Pulled changes reach the tabs as broadcasts
+  async requestRemoteSync(): Promise<void> {
+    await Promise.all(
+      this.remotes.map((remote) => remote.requestSync?.())
+    );
+  }
+
+  // Queues the new changes for every remote
+  private notifyRemotes(): void {
+    this.scheduler.enqueue();
+  }
+
+  async getSyncStatus(): Promise<SyncStatus> {
+    return {
+      ...(await this.scheduler.getStatus()),
+      compression: { ...this.compressionStats },
+    };
+  }
+
+  // Handshake sent to every tab, lets it detect a worker running other code
+  protected getReadyMessage(): WorkerResponse {
+    return {
+      type: "ready",
+      siteId: this.workerSiteId!,
+      protocolVersion: PROTOCOL_VERSION,
+      schemaHash: this.schemaHash!,
+      compressions: this.compressionStats.formats,
+      compressionThreshold: this.compressionStats.threshold,
+    };
+  }
+
   protected async handleClientMessage(message: WorkerMessage, port: WorkerResponsePort) {
     console.log("[CRSqliteWorkerBase] Received message from tab:", message);
 
+    const requestId = message.type !== "cancel" ? message.requestId : undefined;
+    if (requestId) this.inFlightRequests.add(requestId);
+
     try {
       switch (message.type) {
+        case "cancel":
+          // Statements that haven't started yet will be skipped, one that
+          // is already running inside SQLite can't be interrupted
+          if (message.requestId && this.inFlightRequests.has(message.requestId)) {
+            this.cancelledRequests.add(message.requestId);
+          }
+          port.postMessage({
+            type: "cancel-ack",
+            requestId: message.requestId,
+          });
+          break;
+
         case "sync":
           if (!this.isStarted) {
             port.postMessage({
               type: "error",
               error: "Worker not started",
+              requestId: message.requestId,
             });
             return;
           }
 
-          // Send all current changes to the requesting tab
-          const changes = await this.getAllChanges();
+          // Have polling remotes pull too, without holding up the tab
+          this.requestRemoteSync().catch((error) =>
+            console.warn("[CRSqliteWorkerBase] Remote sync failed:", error)
+          );
+
+          // Taken before reading, broadcasts up to here are in the result
+          const seq = this.broadcastSeq;
+
+          // Send the changes the requesting tab doesn't have yet. Only its
+          // version vector knows what it applied, a replayed or failed
+          // sync may have been sent without landing.
+          const peer = message.siteId ? siteIdHex(message.siteId) : null;
+          if (peer) this.portSites.set(port, peer);
+          const changes = await this.getChangesSince(message.versions);
+
+          // In our best format the tab can read
+          const compression = pickCompression(
+            this.compressionStats.formats,
+            message.compressions
+          );
+          for (let i = 0; i * SYNC_CHUNK_SIZE < changes.length; i++) {
+            const payload = await this.packChangeset(
+              changes.slice(i * SYNC_CHUNK_SIZE, (i + 1) * SYNC_CHUNK_SIZE),
+              compression
+            );
+            port.postMessage(
+              {
+                type: "sync-data",
+                ...payload,
+                chunk: i,
+                total: changes.length,
+                requestId: message.requestId,
+              },
+              { transfer: [payload.changeset] }
+            );
+          }
 
           port.postMessage({
-            type: "sync-data",
-            changes: changes,
+            type: "sync-complete",
+            total: changes.length,
+            // Lets the tab re-send local changes we never got
+            receivedVersion: peer ? await this.peers.get(peer, "received") : 0,
+            seq,
+            epoch: this.epoch,
+            requestId: message.requestId,
           });
           break;
 
@@ -108,18 +458,27 @@ export class CRSqliteWorkerBase {
             port.postMessage({
               type: "error",
               error: "Worker not started",
+              requestId: message.requestId,
             });
             return;
           }
 
           try {
-            // Execute the SQL query on the worker's database
-            const result = await this.db.exec(message.sql!, message.args || []);
+            // Not wrapped in a transaction, statements like VACUUM refuse to
+            // run inside one. A cancel that arrives later can't stop it.
+            this.throwIfCancelled(message.requestId);
+            const result = await this.execWithMode(
+              this.db,
+              message.sql!,
+              message.args || [],
+              message.resultMode
+            );
 
             // Broadcast changes first
             await this.broadcastChangesSinceLastVersion();
 
-            // Send reply with result, hopefully the changes have already been delivered
+            // Send reply with result, with ports delivery the changes went
+            // out on the same port and arrive first
             port.postMessage({
               type: "exec-reply",
               result: result,
@@ -138,6 +497,294 @@ export class CRSqliteWorkerBase {
           }
           break;
 
+        case "query":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            // Read-only, nothing could have changed so nothing to broadcast
+            const result = await this.queryReadOnly(
+              message.sql!,
+              message.args || [],
+              message.resultMode || "objects",
+              message.requestId
+            );
+
+            port.postMessage({
+              type: "exec-reply",
+              result: result,
+              requestId: message.requestId,
+            });
+          } catch (queryError) {
+            console.error(
+              "[CRSqliteWorkerBase] Error executing query:",
+              queryError
+            );
+            port.postMessage({
+              type: "error",
+              error: (queryError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "tx":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            // Run all statements atomically, any failure rolls back the whole tx
+            const results: any[] = [];
+            await this.db.tx(async (tx) => {
+              for (const statement of message.statements || []) {
+                this.throwIfCancelled(message.requestId);
+                results.push(
+                  await this.execWithMode(
+                    tx,
+                    statement.sql,
+                    statement.args || [],
+                    statement.resultMode
+                  )
+                );
+              }
+            });
+
+            // One coalesced broadcast for the whole transaction
+            await this.broadcastChangesSinceLastVersion();
+
+            port.postMessage({
+              type: "exec-reply",
+              result: results,
+              requestId: message.requestId,
+            });
+          } catch (txError) {
+            console.error(
+              "[CRSqliteWorkerBase] Error executing transaction:",
+              txError
+            );
+            port.postMessage({
+              type: "error",
+              error: (txError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "cursor-open":
+        case "cursor-fetch":
+        case "cursor-close":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            const result = await this.handleCursorMessage(message, port);
+
+            port.postMessage({
+              type: "exec-reply",
+              result: result,
+              requestId: message.requestId,
+            });
+          } catch (cursorError) {
+            console.error(
+              "[CRSqliteWorkerBase] Error handling cursor:",
+              cursorError
+            );
+            port.postMessage({
+              type: "error",
+              error: (cursorError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "subscribe":
+        case "unsubscribe":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            const result =
+              message.type === "subscribe"
+                ? await this.subscribe(message, port)
+                : this.subscriptions.delete(message.subscriptionId!);
+
+            port.postMessage({
+              type: "exec-reply",
+              result: result,
+              requestId: message.requestId,
+            });
+          } catch (subscribeError) {
+            console.error(
+              "[CRSqliteWorkerBase] Error handling subscription:",
+              subscribeError
+            );
+            port.postMessage({
+              type: "error",
+              error: (subscribeError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "changes":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          // Local changes of a tab in ports mode, unacknowledged ones
+          // are sent again so errors are only logged
+          try {
+            await this.receiveChanges(message.data, port);
+          } catch (error) {
+            console.error("[CRSqliteWorkerBase] Error applying changes:", error);
+          }
+          break;
+
+        case "sync-status":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            // Outgoing queue of the remotes, tabs show it as sync state
+            port.postMessage({
+              type: "exec-reply",
+              result: await this.getSyncStatus(),
+              requestId: message.requestId,
+            });
+          } catch (statusError) {
+            port.postMessage({
+              type: "error",
+              error: (statusError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "export":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            // Everything, or what came after an earlier export. Its
+            // versions are db_versions of the worker that made it.
+            if (
+              message.versions &&
+              message.exportedBy !== siteIdHex(this.workerSiteId!)
+            ) {
+              throw new Error(
+                `Can't continue from an export of ${message.exportedBy ?? "an unknown database"}, only from one of this database`
+              );
+            }
+            const changes = await this.getChangesSince(message.versions);
+            const exported = await writeChangesetFile(changes, {
+              schemaHash: this.schemaHash!,
+              siteId: siteIdHex(this.workerSiteId!),
+              since: message.versions,
+              // The file may be imported by any build
+              compression: this.broadcastCompression(),
+              compressionThreshold: this.compressionStats.threshold,
+              stats: this.compressionStats,
+            });
+            console.log(
+              `[CRSqliteWorkerBase] Exported ${changes.length} changes, ${exported.file.byteLength} bytes`
+            );
+            port.postMessage(
+              {
+                type: "exec-reply",
+                result: exported,
+                requestId: message.requestId,
+              },
+              { transfer: [exported.file] }
+            );
+          } catch (exportError) {
+            port.postMessage({
+              type: "error",
+              error: (exportError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "import":
+          if (!this.isStarted) {
+            port.postMessage({
+              type: "error",
+              error: "Worker not started",
+              requestId: message.requestId,
+            });
+            return;
+          }
+
+          try {
+            if (!message.file) throw new Error("No file to import");
+            const { header, changes } = await readChangesetFile(
+              message.file,
+              this.schemaHash!
+            );
+            console.log(
+              `[CRSqliteWorkerBase] Importing ${changes.length} changes exported by ${header.siteId}`
+            );
+            // Merged like changes from a remote, every tab gets them
+            if (changes.length > 0) await this.applyRemoteChanges(changes);
+            port.postMessage({
+              type: "exec-reply",
+              result: changes.length,
+              requestId: message.requestId,
+            });
+          } catch (importError) {
+            port.postMessage({
+              type: "error",
+              error: (importError as Error).message,
+              requestId: message.requestId,
+            });
+          }
+          break;
+
+        case "disconnect":
+          await this.releasePort(port);
+          break;
+
         default:
           console.warn(
             "[CRSqliteWorkerBase] Unknown message type:",
@@ -149,56 +796,377 @@ export class CRSqliteWorkerBase {
       port.postMessage({
         type: "error",
         error: (error as Error).message,
+        requestId: message.requestId,
       });
+    } finally {
+      if (requestId) {
+        this.inFlightRequests.delete(requestId);
+        this.cancelledRequests.delete(requestId);
+      }
     }
   }
 
-  private async handleBroadcastMessage(event: MessageEvent): Promise<void> {
-    const message: BroadcastMessage = event.data;
-    console.log("[CRSqliteWorkerBase] Received broadcast message:", message);
+  private throwIfCancelled(requestId?: string): void {
+    if (requestId && this.cancelledRequests.has(requestId)) {
+      throw new Error("Request cancelled");
+    }
+  }
+
+  private async execWithMode(
+    tx: TX,
+    sql: string,
+    args: any[],
+    mode: ResultMode = "none"
+  ): Promise<any> {
+    // Scripts can't be prepared, run them the old way
+    if (!isSingleStatement(sql)) {
+      switch (mode) {
+        case "rows":
+          return tx.execA(sql, args);
+        case "objects":
+          return tx.execO(sql, args);
+        default:
+          return tx.exec(sql, args);
+      }
+    }
 
-    if (message.type === "changes" && message.data) {
+    // Unlike exec, statements don't convert booleans
+    const bind = args.map((v) => (typeof v === "boolean" ? Number(v) : v));
+    return this.statements.use(tx, sql, async (stmt) => {
+      switch (mode) {
+        case "rows":
+          return stmt.raw(true).all(tx, ...bind);
+        case "objects":
+          return stmt.raw(false).all(tx, ...bind);
+        default: {
+          // Same result as exec: the rows as arrays, null if the statement
+          // has no result columns
+          const rows = await stmt.raw(true).all(tx, ...bind);
+          return columnNames(stmt).length ? rows : null;
+        }
+      }
+    });
+  }
+
+  // sqlite3_stmt_readonly isn't exported by the wasm build, but with
+  // query_only set SQLite refuses to step any statement that isn't readonly.
+  // Scripts are refused, a later statement could switch query_only off.
+  private async queryReadOnly(
+    sql: string,
+    args: any[],
+    mode: ResultMode,
+    requestId?: string
+  ): Promise<any> {
+    if (!isSingleStatement(sql)) {
+      throw new Error("Queries must be a single statement");
+    }
+
+    let result: any;
+    await this.db.tx(async (tx) => {
+      this.throwIfCancelled(requestId);
+      await tx.exec("PRAGMA query_only = ON");
       try {
-        // Apply changes from tabs to persistent database
-        await this.applyChanges(message.data);
-
-        // Broadcast the changes to other tabs (excluding sender)
-        if (this.broadcastChannel) {
-          this.broadcastChannel.postMessage({
-            type: "changes-applied",
-            data: message.data,
-            sourceTabId: message.sourceTabId,
-          });
+        result = await this.execWithMode(tx, sql, args, mode);
+      } finally {
+        await tx.exec("PRAGMA query_only = OFF");
+      }
+    });
+    return result;
+  }
+
+  private async handleCursorMessage(
+    message: WorkerMessage,
+    port: WorkerResponsePort
+  ): Promise<CursorOpenResult | CursorFetchResult | null> {
+    switch (message.type) {
+      case "cursor-open": {
+        // prepare() would ignore anything after the first statement
+        if (!isSingleStatement(message.sql!)) {
+          throw new Error("Cursors must be a single statement");
         }
+        // Only queries prepare as a sub-select, so the cursor can't write.
+        // The statement itself is what runs, the wrapper would rename
+        // duplicate columns. The newline ends a trailing -- comment.
+        const sql = message.sql!.trim().replace(/;+$/, "");
+        const check = await this.db.prepare(`SELECT * FROM (${sql}\n)`);
+        await check.finalize(null);
+
+        const args = message.args || [];
+        const stmt = await this.db.prepare(sql);
+        const columns = columnNames(stmt);
+        const cursorId = `cursor-${this.cursorCounter++}`;
+        this.cursors.set(cursorId, {
+          port,
+          stmt,
+          rows: stmt.iterate<any[]>(null, ...args),
+        });
+        return { cursorId, columns };
+      }
+
+      case "cursor-fetch": {
+        const cursor = this.cursors.get(message.cursorId!);
+        if (!cursor) throw new Error(`Unknown cursor ${message.cursorId}`);
+
+        const rows: any[][] = [];
+        const count = message.count || 100;
+        while (rows.length < count) {
+          const next = await cursor.rows.next();
+          if (next.done) {
+            await this.closeCursor(message.cursorId!);
+            return { rows, done: true };
+          }
+          rows.push(next.value);
+        }
+        return { rows, done: false };
+      }
+
+      case "cursor-close":
+        await this.closeCursor(message.cursorId!);
+        return null;
+
+      default:
+        throw new Error(`Not a cursor message: ${message.type}`);
+    }
+  }
+
+  private async closeCursor(cursorId: string): Promise<void> {
+    const cursor = this.cursors.get(cursorId);
+    if (!cursor) return;
+
+    this.cursors.delete(cursorId);
+    try {
+      await cursor.stmt.finalize(null);
+    } catch (error) {
+      console.error("[CRSqliteWorkerBase] Error closing cursor:", error);
+    }
+  }
+
+  private async subscribe(
+    message: WorkerMessage,
+    port: WorkerResponsePort
+  ): Promise<SubscribeResult> {
+    const sql = message.sql!;
+    const tablesUsed = await this.db.tablesUsedStmt.all(null, sql);
+    const subscription: WorkerSubscription = {
+      port,
+      sql,
+      args: message.args || [],
+      resultMode: message.resultMode || "objects",
+      tables: new Set(tablesUsed.map((row: any[]) => row[0] as string)),
+      lastResult: null,
+    };
+
+    // Tabs pick their own id so they can route the first push, which
+    // arrives before this reply
+    const subscriptionId =
+      message.subscriptionId || `sub-${this.subscriptionCounter++}`;
+    this.subscriptions.set(subscriptionId, subscription);
+
+    // Initial result goes out as the first push
+    await this.runSubscription(subscriptionId, subscription);
+
+    return { subscriptionId, tables: [...subscription.tables] };
+  }
+
+  private async runSubscription(
+    subscriptionId: string,
+    subscription: WorkerSubscription
+  ): Promise<void> {
+    const result = await this.queryReadOnly(
+      subscription.sql,
+      subscription.args,
+      subscription.resultMode
+    );
+
+    const serialized = serializeResult(result);
+    if (serialized === subscription.lastResult) return;
+    subscription.lastResult = serialized;
+
+    // Might have been unsubscribed while the query ran
+    if (!this.subscriptions.has(subscriptionId)) return;
+
+    subscription.port.postMessage({
+      type: "subscription-data",
+      subscriptionId,
+      result: result ?? [],
+    });
+  }
+
+  // Re-runs every live query that reads from one of the changed tables
+  private async notifySubscriptions(changes: Change[]): Promise<void> {
+    if (this.subscriptions.size === 0) return;
+
+    const touched = new Set(changes.map((c) => c.table));
+    for (const [subscriptionId, subscription] of [...this.subscriptions]) {
+      if (![...subscription.tables].some((t) => touched.has(t))) continue;
+
+      try {
+        await this.runSubscription(subscriptionId, subscription);
+      } catch (error) {
+        console.error(
+          "[CRSqliteWorkerBase] Error re-running subscription:",
+          error
+        );
+        subscription.port.postMessage({
+          type: "error",
+          error: (error as Error).message,
+          subscriptionId,
+        });
+      }
+    }
+  }
+
+  // Frees everything a tab held, called when its port goes away
+  protected async releasePort(port: WorkerResponsePort): Promise<void> {
+    // Tab databases live in memory, the site never comes back
+    const site = this.portSites.get(port);
+    if (site) {
+      this.portSites.delete(port);
+      await this.peers.forget(site);
+    }
+    for (const [cursorId, cursor] of [...this.cursors]) {
+      if (cursor.port === port) await this.closeCursor(cursorId);
+    }
+    for (const [subscriptionId, subscription] of [...this.subscriptions]) {
+      if (subscription.port === port) this.subscriptions.delete(subscriptionId);
+    }
+  }
+
+  private async handleBroadcastMessage(
+    message: BroadcastMessage
+  ): Promise<void> {
+    console.log("[CRSqliteWorkerBase] Received broadcast message:", message);
+
+    if (message.type === "changes" && message.changeset) {
+      try {
+        await this.receiveChanges(message);
       } catch (error) {
         console.error("[CRSqliteWorkerBase] Error applying changes:", error);
       }
     }
   }
 
-  private async getAllChanges(): Promise<Change[]> {
-    try {
-      const result = await this.db.execO<Change>("SELECT * FROM crsql_changes");
+  // Local changes of a tab, from the channel or, in ports mode, its port
+  private async receiveChanges(
+    message: BroadcastMessage,
+    port?: WorkerResponsePort
+  ): Promise<void> {
+    if (!message.changeset) return;
+    const changes = await unpackChangeset({
+      changeset: message.changeset,
+      compression: message.compression,
+    });
+    if (changes.length === 0) return;
+
+    // Apply changes from tabs to persistent database
+    const versions = await this.applyChanges(changes);
+    await this.recordReceived(changes);
+
+    // The sender keeps the changes in its outbox until this arrives.
+    // Not numbered, a lost ack only means the batch is sent again.
+    if (message.sourceTabId) {
+      const ack: BroadcastMessage = {
+        type: "changes-ack",
+        sourceTabId: message.sourceTabId,
+        sinceVersion: message.sinceVersion ?? 0,
+        ackVersion: Math.max(...changes.map((c) => c.db_version)),
+      };
+      if (port) port.postMessage({ type: "broadcast", broadcast: ack });
+      else if (this.transport) this.transport.post(ack);
+    }
+
+    // Broadcast the changes to other tabs (excluding sender), the
+    // changeset goes on as it came unless they may not read its format
+    const payload =
+      message.compression && message.compression !== FALLBACK_COMPRESSION
+        ? await this.packChangeset(changes)
+        : { changeset: message.changeset, compression: message.compression };
+    this.postBroadcast(
+      {
+        type: "changes-applied",
+        ...payload,
+        sourceTabId: message.sourceTabId,
+        versions,
+      },
+      port
+    );
+
+    await this.notifySubscriptions(changes);
+    this.notifyRemotes();
+  }
+
+  // Changes pulled from a remote replica or imported from a file, tabs get
+  // them like a tab's changes. They're queued for the remotes too, the echo
+  // to the source is dropped there as a duplicate.
+  private async applyRemoteChanges(changes: Change[]): Promise<void> {
+    const versions = await this.applyChanges(changes);
+    this.postBroadcast({
+      type: "changes-applied",
+      ...(await this.packChangeset(changes)),
+      versions,
+    });
+    await this.notifySubscriptions(changes);
+    this.notifyRemotes();
+  }
+
+  // Remembers the highest version applied per originating site
+  private async recordReceived(changes: Change[]): Promise<void> {
+    const versions: VersionVector = {};
+    for (const change of changes) {
+      const site = siteIdHex(change.site_id);
+      versions[site] = Math.max(versions[site] ?? 0, change.db_version);
+    }
+    for (const [site, version] of Object.entries(versions)) {
+      await this.peers.advance(site, "received", version);
+    }
+  }
+
+  // Everything above the given per-site versions and above sent, all
+  // changes if neither is given. Errors go to the caller, an empty result
+  // would look like there is nothing to sync.
+  private async getChangesSince(
+    versions?: VersionVector,
+    sent = 0
+  ): Promise<Change[]> {
+    const entries = Object.entries(versions || {});
+    if (entries.length === 0) {
+      const result = await this.db.execO<Change>(
+        "SELECT * FROM crsql_changes WHERE db_version > ?",
+        [sent]
+      );
       return result || [];
-    } catch (error) {
-      console.error("[CRSqliteWorkerBase] Error getting changes:", error);
-      return [];
     }
+
+    const cases = entries.map(() => "WHEN ? THEN ?").join(" ");
+    const result = await this.db.execO<Change>(
+      `SELECT * FROM crsql_changes WHERE db_version > max(CASE hex(site_id) ${cases} ELSE -1 END, ?)`,
+      [...entries.flat(), sent]
+    );
+    console.log(
+      `[CRSqliteWorkerBase] ${result?.length || 0} changes missing from version vector of ${entries.length} sites`
+    );
+    return result || [];
   }
 
-  private async applyChanges(changes: Change[]): Promise<void> {
-    if (!changes || changes.length === 0) return;
+  // Returns the db_versions the changes got here per originating site,
+  // read in the same transaction so nothing else is mixed in
+  private async applyChanges(changes: Change[]): Promise<VersionVector> {
+    const versions: VersionVector = {};
+    if (!changes || changes.length === 0) return versions;
 
     console.log(
       `[CRSqliteWorkerBase] Applying ${changes.length} changes to persistent database`
     );
 
     try {
-      await this.db.tx(async (tx: any) => {
-        for (const change of changes) {
-          await tx.exec(
-            `INSERT INTO crsql_changes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
+      await this.db.tx(async (tx) => {
+        const [[before]] = await tx.execA<[number]>(
+          "SELECT crsql_db_version()"
+        );
+        await this.statements.use(tx, INSERT_CHANGE_SQL, async (stmt) => {
+          for (const change of changes) {
+            await stmt.run(
+              tx,
               change.table,
               change.pk,
               change.cid,
@@ -207,14 +1175,20 @@ export class CRSqliteWorkerBase {
               change.db_version,
               change.site_id,
               change.cl,
-              change.seq,
-            ]
-          );
-        }
+              change.seq
+            );
+          }
+        });
+        const merged = await tx.execA<[string, number]>(
+          "SELECT hex(site_id), max(db_version) FROM crsql_changes WHERE db_version > ? GROUP BY site_id",
+          [before]
+        );
+        for (const [site, version] of merged) versions[site] = version;
       });
       console.log(
         "[CRSqliteWorkerBase] Successfully applied changes to persistent database"
       );
+      return versions;
     } catch (error) {
       console.error(
         "[CRSqliteWorkerBase] Error applying changes to database:",
@@ -226,12 +1200,29 @@ export class CRSqliteWorkerBase {
 
   private async initialize(): Promise<void> {
     try {
-      const result = await this.db.execO<{ db_version: number }>(
-        "SELECT db_version FROM crsql_changes WHERE site_id = crsql_site_id()"
-      );
-      this.lastDbVersion = result?.[0]?.db_version || 0;
+      await this.peers.initialize();
+      await this.scheduler.initialize();
+
+      // Tabs of earlier sessions that didn't disconnect. One still open
+      // only re-sends its unacknowledged changes, merging them is a no-op.
+      for (const { peer } of await this.peers.getAll()) {
+        if (SITE_PEER.test(peer)) await this.peers.forget(peer);
+      }
+
+      // First start with the tracking table, tabs get the existing history
+      // through sync, so don't broadcast it
+      if (!(await this.peers.has(BROADCAST_PEER, "sent"))) {
+        const result = await this.db.execO<{ db_version: number | null }>(
+          "SELECT max(db_version) AS db_version FROM crsql_changes WHERE site_id = crsql_site_id()"
+        );
+        await this.peers.advance(
+          BROADCAST_PEER,
+          "sent",
+          result?.[0]?.db_version || 0
+        );
+      }
       console.log(
-        `[CRSqliteWorkerBase] Initialized lastDbVersion to ${this.lastDbVersion}`
+        `[CRSqliteWorkerBase] Broadcast version is ${await this.peers.get(BROADCAST_PEER, "sent")}`
       );
       const resultSite = await this.db.execO<{ site_id: Uint8Array }>(
         "SELECT crsql_site_id() as site_id"
@@ -240,39 +1231,42 @@ export class CRSqliteWorkerBase {
       console.log(
         `[CRSqliteWorkerBase] Initialized workerSiteId to ${this.workerSiteId}`
       );
-    } catch (error) {
-      console.error(
-        "[CRSqliteWorkerBase] Error initializing last db version:",
-        error
+      this.schemaHash = await computeSchemaHash(this.db);
+      console.log(
+        `[CRSqliteWorkerBase] Initialized schemaHash to ${this.schemaHash}`
       );
-      this.lastDbVersion = 0;
+    } catch (error) {
+      console.error("[CRSqliteWorkerBase] Error initializing:", error);
     }
   }
 
   private async broadcastChangesSinceLastVersion(): Promise<void> {
     try {
       // Only local changes, changes on other tabs should have been broadcasted through channel
+      const sentVersion = await this.peers.get(BROADCAST_PEER, "sent");
       const changes = await this.db.execO<Change>(
         "SELECT * FROM crsql_changes WHERE db_version > ? AND site_id = crsql_site_id()",
-        [this.lastDbVersion]
+        [sentVersion]
       );
 
       if (changes && changes.length > 0) {
         console.log(
-          `[CRSqliteWorkerBase] Broadcasting ${changes.length} changes since version ${this.lastDbVersion}`
+          `[CRSqliteWorkerBase] Broadcasting ${changes.length} changes since version ${sentVersion}`
         );
 
-        // Update last db version
+        // Update last broadcast version
         const maxVersion = Math.max(...changes.map((c) => c.db_version));
-        this.lastDbVersion = maxVersion;
+        await this.peers.advance(BROADCAST_PEER, "sent", maxVersion);
 
         // Broadcast changes to all tabs
-        if (this.broadcastChannel) {
-          this.broadcastChannel.postMessage({
-            type: "changes-applied",
-            data: changes,
-          });
-        }
+        this.postBroadcast({
+          type: "changes-applied",
+          ...(await this.packChangeset(changes)),
+          versions: { [siteIdHex(this.workerSiteId!)]: maxVersion },
+        });
+
+        await this.notifySubscriptions(changes);
+        this.notifyRemotes();
       }
     } catch (error) {
       console.error(
@@ -282,12 +1276,80 @@ export class CRSqliteWorkerBase {
     }
   }
 
+  // Broadcasts reach tabs we know nothing about, only the fallback format
+  // is certain to be readable by all of them
+  private broadcastCompression(): ChangesetCompression | null {
+    return this.compressionStats.formats.includes(FALLBACK_COMPRESSION)
+      ? FALLBACK_COMPRESSION
+      : null;
+  }
+
+  // Compressed for broadcasting unless told otherwise, every payload counts
+  // towards the sync status
+  private packChangeset(
+    changes: Change[],
+    compression: ChangesetCompression | null = this.broadcastCompression()
+  ): Promise<ChangesetPayload> {
+    return packChangeset(
+      changes,
+      compression,
+      this.compressionStats.threshold,
+      this.compressionStats
+    );
+  }
+
+  // Numbers every worker broadcast so tabs can tell when they missed one
+  private postBroadcast(
+    message: BroadcastMessage,
+    sender?: WorkerResponsePort
+  ): void {
+    this.deliver(
+      { ...message, seq: ++this.broadcastSeq, epoch: this.epoch },
+      sender
+    );
+  }
+
+  // Fans a numbered broadcast out to the tabs, subclasses that know their
+  // ports can send it through those instead
+  protected deliver(
+    message: BroadcastMessage,
+    _sender?: WorkerResponsePort
+  ): void {
+    if (this.transport) this.transport.post(message);
+  }
+
+  getStatementCacheStats(): StatementCacheStats {
+    return this.statements.getStats();
+  }
+
   stop(): void {
-    if (this.broadcastChannel) {
-      this.broadcastChannel.close();
-      this.broadcastChannel = null;
+    if (this.unsubscribeTransport) {
+      this.unsubscribeTransport();
+      this.unsubscribeTransport = null;
+    }
+    // A transport given to the constructor belongs to the caller
+    if (this.transport && this.transport !== this.configuredTransport) {
+      this.transport.close();
     }
+    this.transport = null;
     this.isStarted = false;
-    this.lastDbVersion = 0;
+    for (const remote of this.remotes) remote.stop();
+    this.scheduler.stop();
+    this.inFlightRequests.clear();
+    this.cancelledRequests.clear();
+    for (const cursorId of [...this.cursors.keys()]) {
+      this.closeCursor(cursorId);
+    }
+    this.subscriptions.clear();
+    this.statements.finalizeAll();
   }
 }
+
+// Stable string form of a query result, for change detection
+function serializeResult(result: any): string {
+  return JSON.stringify(result ?? [], (_key, value) => {
+    if (value instanceof Uint8Array) return Array.from(value);
+    if (typeof value === "bigint") return value.toString();
+    return value;
+  });
+}
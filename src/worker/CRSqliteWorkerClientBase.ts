@@ -3,31 +3,158 @@ import { DB } from "@vlcn.io/crsqlite-wasm";
 import {
   BroadcastMessage,
   Change,
+  CursorFetchResult,
+  CursorOpenResult,
+  DeliveryMode,
+  INSERT_CHANGE_SQL,
+  PROTOCOL_VERSION,
+  ResultMode,
+  siteIdHex,
+  SubscribeResult,
+  SyncStatus,
+  TxStatement,
+  VersionVector,
   WorkerMessage,
   WorkerResponse,
 } from "./CRSqliteWorkerBase";
+import {
+  ChangesetCompression,
+  CompressionStats,
+  DEFAULT_COMPRESSION_THRESHOLD,
+  FALLBACK_COMPRESSION,
+  packChangeset,
+  supportedCompressions,
+  unpackChangeset,
+} from "./compression";
+import { CHANGESET_FILE_TYPE, ChangesetFileHeader } from "./changesetFile";
+import { computeSchemaHash } from "./schemaHash";
+import { StatementCache, StatementCacheStats } from "./StatementCache";
+
+const DEFAULT_TIMEOUT_MS = 10000;
+// Unacknowledged local changes are sent again after this long
+const OUTBOX_RETRY_MS = 3000;
+
+export interface RequestOptions {
+  // Defaults to 10 seconds
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  // Safe to run twice, replayed against a new worker host if the current
+  // one is lost. Defaults to true for sync, read-only queries, status,
+  // export and import (merging the same changes twice changes nothing).
+  idempotent?: boolean;
+}
+
+export interface CursorOptions extends RequestOptions {
+  // Rows fetched from the worker per round trip
+  batchSize?: number;
+}
+
+export interface SyncProgress {
+  received: number;
+  total: number;
+}
+
+// Why the client resynced on its own
+export interface ResyncInfo {
+  // gap: broadcasts were missed, epoch: the worker was restarted
+  reason: "gap" | "epoch";
+  applied: number;
+}
+
+// Live query, kept to subscribe again on a new worker host
+interface ClientSubscription {
+  sql: string;
+  args: any[];
+  onResult: (result: any[]) => void;
+}
+
+interface PendingRequest {
+  message: WorkerMessage;
+  idempotent: boolean;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  // Restarts the timeout, for replies that arrive in parts
+  touch: () => void;
+}
+
+export type CRSqliteWorkerErrorCode = "VERSION_MISMATCH" | "HOST_LOST";
+
+export class CRSqliteWorkerError extends Error {
+  readonly code: CRSqliteWorkerErrorCode;
+
+  constructor(code: CRSqliteWorkerErrorCode, message: string) {
+    super(message);
+    this.name = "CRSqliteWorkerError";
+    this.code = code;
+  }
+}
 
 export class CRSqliteWorkerClientBase {
   private db: DB;
   protected tabId: string;
   private lastBroadcastVersion = 0;
+  // Local changes up to here are stored by the worker, the rest is the
+  // outbox and gets sent again until acknowledged
+  private ackedVersion = 0;
+  private outboxRetry: ReturnType<typeof setTimeout> | null = null;
+  // What we've received from the worker so far, sent with sync requests
+  private versionVector: VersionVector = {};
   private changeInterval: NodeJS.Timeout | null = null;
   protected isStarted = false;
   private siteId: Uint8Array | null = null;
   private workerSiteId: Uint8Array | null = null;
-  private pendingExecRequests = new Map<
+  private schemaHash: string | null = null;
+  // Set when the worker runs incompatible code, sync is suspended after that
+  private incompatible: CRSqliteWorkerError | null = null;
+  private pendingExecRequests = new Map<string, PendingRequest>();
+  // Worker host went away, idempotent requests wait for the next "ready"
+  private hostLost = false;
+  private execRequestCounter = 0;
+  private statements: StatementCache;
+  // Live query callbacks by subscriptionId
+  private subscriptions = new Map<string, ClientSubscription>();
+
+  // Position in the worker's broadcast sequence, null until the first sync
+  private broadcastEpoch: string | null = null;
+  private lastSeq: number | null = null;
+  // Resync in flight, and whether another gap was seen meanwhile
+  private resyncing = false;
+  private resyncAgain: ResyncInfo["reason"] | null = null;
+  // Announced by the worker in its handshake
+  private delivery: DeliveryMode = "broadcast";
+  // Formats both we and the worker read, and what compression did to the
+  // changes this tab sent
+  private compressionStats: CompressionStats = {
+    formats: [],
+    threshold: DEFAULT_COMPRESSION_THRESHOLD,
+    payloads: 0,
+    compressed: 0,
+    bytesBefore: 0,
+    bytesAfter: 0,
+  };
+  // Broadcast changes are applied one after the other, replies wait for
+  // the changes delivered before them
+  private applying: Promise<void> = Promise.resolve();
+
+  // Syncs being received chunk by chunk, by requestId
+  private syncStates = new Map<
     string,
-    { resolve: (result: any) => void; reject: (error: Error) => void }
+    { received: number; applied: number; chain: Promise<void> }
   >();
-  private execRequestCounter = 0;
 
   // Event handlers
   private onSyncDataReceived: ((data: Change[]) => void) | null = null;
-  protected onError: ((error: string) => void) | null = null;
+  private onSyncProgressUpdate: ((progress: SyncProgress) => void) | null =
+    null;
+  protected onError:
+    | ((error: string, cause?: CRSqliteWorkerError) => void)
+    | null = null;
   private onTablesChanged: ((tables: string[]) => void) | null = null;
+  private onResync: ((info: ResyncInfo) => void) | null = null;
 
   constructor(db: DB, onTablesChanged?: (tables: string[]) => void) {
     this.db = db;
+    this.statements = new StatementCache(db);
     this.tabId = `tab-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     this.onTablesChanged = onTablesChanged || null;
   }
@@ -46,6 +173,9 @@ export class CRSqliteWorkerClientBase {
       if (!this.siteId) throw new Error("No local site_id");
       console.log("[CRSqliteWorkerClientBase] Local site_id: ", this.siteId);
 
+      // Compared against the worker's schema in the "ready" handshake
+      this.schemaHash = await computeSchemaHash(this.db);
+
       this.isStarted = true;
       console.log("[CRSqliteWorkerClientBase] Started successfully");
     } catch (error) {
@@ -66,15 +196,48 @@ export class CRSqliteWorkerClientBase {
       clearInterval(this.changeInterval);
       this.changeInterval = null;
     }
+    if (this.outboxRetry) {
+      clearTimeout(this.outboxRetry);
+      this.outboxRetry = null;
+    }
+
+    // Let the worker free whatever it holds for us, like open cursors
+    try {
+      this.postMessage({ type: "disconnect" });
+    } catch (error) {
+      console.warn("[CRSqliteWorkerClientBase] Failed to send disconnect:", error);
+    }
+
+    // Nobody will answer these anymore
+    const stopped = new Error("CRSqliteWorkerClientBase stopped");
+    for (const requestId of [...this.pendingExecRequests.keys()]) {
+      this.settleRequest(requestId, undefined, stopped);
+    }
 
     this.isStarted = false;
     this.lastBroadcastVersion = 0;
+    this.ackedVersion = 0;
+    this.versionVector = {};
     this.workerSiteId = null;
+    this.incompatible = null;
+    this.broadcastEpoch = null;
+    this.lastSeq = null;
+    this.resyncing = false;
+    this.resyncAgain = null;
+    this.delivery = "broadcast";
+    this.applying = Promise.resolve();
+    this.subscriptions.clear();
+    this.syncStates.clear();
+    this.statements.finalizeAll();
+    this.hostLost = false;
 
     console.log("[CRSqliteWorkerClientBase] Stopped");
   }
 
-  protected postMessage(message: WorkerMessage) {
+  protected postMessage(
+    message: WorkerMessage,
+    _options?: StructuredSerializeOptions
+  ) {
     throw new Error("postMessage not implemented in worker client base");
   }
 
@@ -87,47 +250,44 @@ export class CRSqliteWorkerClientBase {
 
     switch (response.type) {
       case "sync-data":
-        if (response.changes && this.onSyncDataReceived) {
-          this.applyChanges(response.changes)
-            .then(() => {
-              // Update last broadcast version after applying initial sync
-              if (response.changes!.length > 0) {
-                const maxVersion = Math.max(
-                  ...response.changes!.map((c: Change) => c.db_version)
-                );
-                this.lastBroadcastVersion = maxVersion;
-                console.log(
-                  `[CRSqliteWorkerClientBase] Updated lastBroadcastVersion to ${maxVersion} after initial sync`
-                );
-              }
+        this.handleSyncChunk(response);
+        break;
 
-              if (this.onSyncDataReceived) {
-                this.onSyncDataReceived(response.changes!);
-              }
-            })
-            .catch((error) => {
-              console.error(
-                "[CRSqliteWorkerClientBase] Error applying sync data:",
-                error
-              );
-              if (this.onError) {
-                this.onError(error.message);
-              }
-            });
-        }
+      case "sync-complete":
+        this.handleSyncComplete(response);
         break;
 
       case "exec-reply":
-        // Handle exec reply by resolving the corresponding promise
-        const requestId = response.requestId;
-        if (requestId && this.pendingExecRequests.has(requestId)) {
-          const { resolve } = this.pendingExecRequests.get(requestId)!;
-          this.pendingExecRequests.delete(requestId);
-          resolve(response.result);
-        }
+        // Handle exec reply by resolving the corresponding promise, once
+        // the changes that came before it are in
+        this.applying.then(() =>
+          this.settleRequest(response.requestId, response.result)
+        );
+        break;
+
+      case "broadcast":
+        this.handleBroadcastMessage(response.broadcast!);
         break;
 
       case "ready":
+        if (!this.checkHandshake(response)) break;
+        this.delivery = response.delivery ?? "broadcast";
+        this.compressionStats.formats = supportedCompressions().filter(
+          (format) => response.compressions?.includes(format)
+        );
+        this.compressionStats.threshold =
+          response.compressionThreshold ?? DEFAULT_COMPRESSION_THRESHOLD;
+
+        if (this.hostLost) {
+          this.hostLost = false;
+          this.replayPendingRequests();
+          // Whatever the old host didn't acknowledge goes to the new one
+          this.resendOutbox();
+          // Live queries were held by the old host
+          this.resubscribe();
+        }
+        this.hostReady();
+
         // Store worker site_id when worker is ready
         if (response.siteId) {
           this.workerSiteId = response.siteId;
@@ -141,35 +301,291 @@ export class CRSqliteWorkerClientBase {
       case "error":
         console.error("[CRSqliteWorkerClientBase] Worker error:", response.error);
 
-        // Check if this error is for a pending exec request
-        const errorRequestId = response.requestId;
-        if (errorRequestId && this.pendingExecRequests.has(errorRequestId)) {
-          const { reject } = this.pendingExecRequests.get(errorRequestId)!;
-          this.pendingExecRequests.delete(errorRequestId);
-          reject(new Error(response.error || "Unknown worker error"));
+        if (response.subscriptionId) {
+          if (this.onError) {
+            this.onError(response.error || "Unknown subscription error");
+          }
+          break;
+        }
+
+        // Check if this error is for a pending request, replies to
+        // cancelled or timed out requests are dropped
+        const workerError = new Error(response.error || "Unknown worker error");
+        if (response.requestId) {
+          this.settleRequest(response.requestId, undefined, workerError);
         } else if (this.onError) {
-          this.onError(response.error || "Unknown worker error");
+          this.onError(workerError.message);
         }
         break;
+
+      case "subscription-data":
+        const subscription = this.subscriptions.get(response.subscriptionId!);
+        if (subscription) subscription.onResult(response.result);
+        break;
+
+      case "cancel-ack":
+        console.log(
+          "[CRSqliteWorkerClientBase] Worker acknowledged cancel of",
+          response.requestId
+        );
+        break;
+    }
+  }
+
+  // Returns false and suspends sync if the worker runs incompatible code
+  private checkHandshake(response: WorkerResponse): boolean {
+    let reason: string | null = null;
+    if (response.protocolVersion !== PROTOCOL_VERSION) {
+      reason = `worker protocol ${response.protocolVersion}, tab protocol ${PROTOCOL_VERSION}`;
+    } else if (response.schemaHash !== this.schemaHash) {
+      reason = `worker schema ${response.schemaHash}, tab schema ${this.schemaHash}`;
+    }
+    if (!reason) return true;
+
+    console.error("[CRSqliteWorkerClientBase] Version mismatch:", reason);
+    this.incompatible = new CRSqliteWorkerError(
+      "VERSION_MISMATCH",
+      `Worker version mismatch (${reason}), reload the page`
+    );
+    // An older worker may never answer them in a way we understand
+    this.abandonPendingRequests(this.incompatible);
+    if (this.onError) {
+      this.onError(this.incompatible.message, this.incompatible);
     }
+    return false;
+  }
+
+  // Called by subclasses when the worker host died or this tab lost leadership
+  protected handleHostLost(reason: string): void {
+    if (this.hostLost) return;
+    this.hostLost = true;
+
+    console.warn("[CRSqliteWorkerClientBase] Worker host lost:", reason);
+
+    // Non-idempotent requests may or may not have been applied, the caller
+    // has to decide, idempotent ones are replayed on the next "ready"
+    const lost = new CRSqliteWorkerError(
+      "HOST_LOST",
+      `Worker host lost (${reason}), request outcome unknown`
+    );
+    for (const [requestId, pending] of [...this.pendingExecRequests]) {
+      if (!pending.idempotent) this.settleRequest(requestId, undefined, lost);
+    }
+  }
+
+  // Called on every "ready" that passed the handshake
+  protected hostReady(): void {}
+
+  // Called by subclasses that gave up on finding a new host, nothing will
+  // be replayed anymore
+  protected abandonPendingRequests(error: Error): void {
+    for (const requestId of [...this.pendingExecRequests.keys()]) {
+      this.settleRequest(requestId, undefined, error);
+    }
+  }
+
+  // Same ids, so pushes keep reaching the callbacks
+  private resubscribe(): void {
+    for (const [subscriptionId, { sql, args }] of this.subscriptions) {
+      this.sendRequest<SubscribeResult>(
+        { type: "subscribe", sql, args, subscriptionId },
+        `subscribe-${this.execRequestCounter++}`,
+        "Database subscribe timeout"
+      ).catch((error) => {
+        console.error(
+          "[CRSqliteWorkerClientBase] Error resubscribing:",
+          subscriptionId,
+          error
+        );
+        if (this.onError) {
+          this.onError((error as Error).message);
+        }
+      });
+    }
+  }
+
+  private replayPendingRequests(): void {
+    if (this.pendingExecRequests.size === 0) return;
+
+    console.log(
+      `[CRSqliteWorkerClientBase] Replaying ${this.pendingExecRequests.size} requests on new worker host`
+    );
+    for (const { message } of this.pendingExecRequests.values()) {
+      this.postMessage(message);
+    }
+  }
+
+  // Each chunk is applied in its own transaction, chained so they land in order
+  private handleSyncChunk(response: WorkerResponse): void {
+    const requestId = response.requestId || "";
+    if (this.incompatible || !response.changeset) return;
+
+    // A replayed sync starts over from the first chunk
+    let state = this.syncStates.get(requestId);
+    if (!state || response.chunk === 0) {
+      state = { received: 0, applied: 0, chain: Promise.resolve() };
+      this.syncStates.set(requestId, state);
+    }
+
+    // A large sync only times out if chunks stop arriving or applying
+    this.pendingExecRequests.get(requestId)?.touch();
+
+    const payload = {
+      changeset: response.changeset,
+      compression: response.compression,
+    };
+    const current = state;
+    current.chain = current.chain.then(async () => {
+      const changes = await unpackChangeset(payload);
+      const total = response.total ?? changes.length;
+      current.applied += await this.applyChanges(changes);
+      current.received += changes.length;
+      this.updateVersionVector(changes);
+      this.pendingExecRequests.get(requestId)?.touch();
+
+      if (this.onSyncDataReceived) {
+        this.onSyncDataReceived(changes);
+      }
+      if (this.onSyncProgressUpdate) {
+        this.onSyncProgressUpdate({ received: current.received, total });
+      }
+    });
+  }
+
+  private handleSyncComplete(response: WorkerResponse): void {
+    const requestId = response.requestId || "";
+    const state = this.syncStates.get(requestId);
+    this.syncStates.delete(requestId);
+
+    if (this.incompatible) {
+      this.settleRequest(requestId, undefined, this.incompatible);
+      return;
+    }
+
+    (state?.chain ?? Promise.resolve())
+      .then(() => {
+        // The worker tracks what it got from us, anything above that
+        // gets broadcast again on the next local change
+        if (response.receivedVersion !== undefined) {
+          this.lastBroadcastVersion = response.receivedVersion;
+          this.ackedVersion = response.receivedVersion;
+          console.log(
+            `[CRSqliteWorkerClientBase] Updated lastBroadcastVersion to ${response.receivedVersion} after sync`
+          );
+        }
+
+        // The snapshot covers broadcasts up to seq, later ones are
+        // checked for gaps from there
+        if (response.epoch !== undefined && response.seq !== undefined) {
+          if (response.epoch !== this.broadcastEpoch || this.lastSeq === null) {
+            this.broadcastEpoch = response.epoch;
+            this.lastSeq = response.seq;
+          } else {
+            this.lastSeq = Math.max(this.lastSeq, response.seq);
+          }
+        }
+
+        // Resolve the requestSync() promise now that all data has landed
+        this.settleRequest(requestId, state?.applied ?? 0);
+
+        // Re-send whatever local changes the worker is missing
+        this.triggerSync();
+      })
+      .catch((error) => {
+        console.error(
+          "[CRSqliteWorkerClientBase] Error applying sync data:",
+          error
+        );
+        if (!this.settleRequest(requestId, undefined, error)) {
+          if (this.onError) {
+            this.onError(error.message);
+          }
+        }
+      });
+  }
+
+  // Sync data carries the worker's db_versions, so the vector can be
+  // sent back as is on the next sync
+  private updateVersionVector(changes: Change[]): void {
+    for (const change of changes) {
+      const site = siteIdHex(change.site_id);
+      if ((this.versionVector[site] ?? -1) < change.db_version) {
+        this.versionVector[site] = change.db_version;
+      }
+    }
+  }
+
+  // Broadcasts say which worker db_versions their changes got
+  private advanceVersionVector(versions: VersionVector | undefined): void {
+    for (const [site, version] of Object.entries(versions ?? {})) {
+      if ((this.versionVector[site] ?? -1) < version) {
+        this.versionVector[site] = version;
+      }
+    }
+  }
+
+  // Resolves or rejects a pending request, returns false if it's not ours
+  private settleRequest(
+    requestId: string | undefined,
+    result: any,
+    error?: Error
+  ): boolean {
+    if (!requestId || !this.pendingExecRequests.has(requestId)) return false;
+
+    const { resolve, reject } = this.pendingExecRequests.get(requestId)!;
+    this.pendingExecRequests.delete(requestId);
+    if (error) reject(error);
+    else resolve(result);
+    return true;
   }
 
   protected handleBroadcastMessage(message: BroadcastMessage): void {
     console.log("[CRSqliteWorkerClientBase] Received broadcast message:", message);
 
-    // Ignore messages from this tab
+    // Don't apply changes produced under another schema or protocol
+    if (this.incompatible) {
+      return;
+    }
+
+    // Our own relayed changes still count towards the sequence
+    const inSequence =
+      message.seq !== undefined && this.checkSequence(message);
+
+    if (message.type === "changes-ack") {
+      if (message.sourceTabId === this.tabId) this.handleAck(message);
+      return;
+    }
+
+    // Ignore messages from this tab, apart from where its changes landed
     if (message.sourceTabId === this.tabId) {
+      if (inSequence) {
+        this.applying = this.applying.then(() =>
+          this.advanceVersionVector(message.versions)
+        );
+      }
       return;
     }
 
     switch (message.type) {
       case "changes-applied":
-        if (message.data) {
-          this.applyChanges(message.data)
+        if (message.changeset) {
+          const payload = {
+            changeset: message.changeset,
+            compression: message.compression,
+          };
+          let changes: Change[] = [];
+          this.applying = this.applying
+            .then(async () => {
+              changes = await unpackChangeset(payload);
+              return this.applyChanges(changes);
+            })
             .then(() => {
+              // After a missed broadcast the vector has to stay where it
+              // is, the resync covers what's missing from there
+              if (inSequence) this.advanceVersionVector(message.versions);
               // Don't update broadcast version for external changes
               if (this.onSyncDataReceived) {
-                this.onSyncDataReceived(message.data!);
+                this.onSyncDataReceived(changes);
               }
             })
             .catch((error) => {
@@ -186,8 +602,103 @@ export class CRSqliteWorkerClientBase {
     }
   }
 
-  private async applyChanges(changes: Change[]): Promise<void> {
-    if (!changes || changes.length === 0) return;
+  // Only an ack continuing from what's already acknowledged counts, a batch
+  // the worker missed in between must not be skipped
+  private handleAck(message: BroadcastMessage): void {
+    if ((message.sinceVersion ?? 0) > this.ackedVersion) return;
+
+    this.ackedVersion = Math.max(this.ackedVersion, message.ackVersion ?? 0);
+    console.log(
+      `[CRSqliteWorkerClientBase] Worker acknowledged changes up to ${this.ackedVersion}`
+    );
+    if (this.ackedVersion >= this.lastBroadcastVersion && this.outboxRetry) {
+      clearTimeout(this.outboxRetry);
+      this.outboxRetry = null;
+    }
+  }
+
+  // Sends everything after the acknowledged version again
+  private resendOutbox(): void {
+    if (this.lastBroadcastVersion <= this.ackedVersion) return;
+
+    console.log(
+      `[CRSqliteWorkerClientBase] Resending unacknowledged changes after ${this.ackedVersion}`
+    );
+    this.lastBroadcastVersion = this.ackedVersion;
+    this.triggerSync();
+  }
+
+  private scheduleOutboxRetry(): void {
+    if (this.outboxRetry) return;
+    this.outboxRetry = setTimeout(() => {
+      this.outboxRetry = null;
+      if (!this.isStarted) return;
+      this.resendOutbox();
+      // Keep retrying while nothing is listening
+      if (this.lastBroadcastVersion > this.ackedVersion) {
+        this.scheduleOutboxRetry();
+      }
+    }, OUTBOX_RETRY_MS);
+  }
+
+  // Broadcasts are fire and forget, a missed one is only noticed by the
+  // next seq skipping ahead. True if the message follows the last one and
+  // no resync is running.
+  private checkSequence(message: BroadcastMessage): boolean {
+    // Until the first sync completes the baseline isn't known
+    if (this.lastSeq === null) return false;
+
+    if (message.epoch !== this.broadcastEpoch) {
+      console.warn("[CRSqliteWorkerClientBase] Worker restarted, resyncing");
+      this.broadcastEpoch = message.epoch!;
+      this.lastSeq = message.seq!;
+      this.resync("epoch");
+    } else if (message.seq! > this.lastSeq + 1) {
+      console.warn(
+        `[CRSqliteWorkerClientBase] Missed broadcasts ${this.lastSeq + 1}..${message.seq! - 1}, resyncing`
+      );
+      this.lastSeq = message.seq!;
+      this.resync("gap");
+    } else if (message.seq! > this.lastSeq) {
+      this.lastSeq = message.seq!;
+      return !this.resyncing;
+    }
+    return false;
+  }
+
+  // Incremental sync, the version vector limits it to what we're missing
+  private async resync(reason: ResyncInfo["reason"]): Promise<void> {
+    if (this.resyncing) {
+      this.resyncAgain = reason;
+      return;
+    }
+
+    this.resyncing = true;
+    try {
+      const applied = await this.requestSync();
+      console.log(
+        `[CRSqliteWorkerClientBase] Resynced after ${reason}, applied ${applied} changes`
+      );
+      if (this.onResync) {
+        this.onResync({ reason, applied });
+      }
+    } catch (error) {
+      console.error("[CRSqliteWorkerClientBase] Resync failed:", error);
+      if (this.onError) {
+        this.onError((error as Error).message);
+      }
+    } finally {
+      this.resyncing = false;
+    }
+
+    // Another gap while the sync was running, it may not be covered
+    const again = this.resyncAgain;
+    this.resyncAgain = null;
+    if (again && this.isStarted) this.resync(again);
+  }
+
+  private async applyChanges(changes: Change[]): Promise<number> {
+    if (!changes || changes.length === 0) return 0;
 
     console.log(`[CRSqliteWorkerClientBase] Applying ${changes.length} changes`);
 
@@ -207,14 +718,14 @@ export class CRSqliteWorkerClientBase {
 
       if (filteredChanges.length === 0) {
         console.log(`[CRSqliteWorkerClientBase] No external changes to apply`);
-        return;
+        return 0;
       }
 
-      await this.db.tx(async (tx: any) => {
-        for (const change of filteredChanges) {
-          await tx.exec(
-            `INSERT INTO crsql_changes VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-            [
+      await this.db.tx(async (tx) => {
+        await this.statements.use(tx, INSERT_CHANGE_SQL, async (stmt) => {
+          for (const change of filteredChanges) {
+            await stmt.run(
+              tx,
               change.table,
               change.pk,
               change.cid,
@@ -223,10 +734,10 @@ export class CRSqliteWorkerClientBase {
               change.db_version,
               change.site_id,
               change.cl,
-              change.seq,
-            ]
-          );
-        }
+              change.seq
+            );
+          }
+        });
       });
 
       // Now that changes are visible, notify TanStack Query to invalidate affected queries
@@ -238,6 +749,7 @@ export class CRSqliteWorkerClientBase {
       console.log(
         `[CRSqliteWorkerClientBase] Successfully applied ${filteredChanges.length} external changes`
       );
+      return filteredChanges.length;
     } catch (error) {
       console.error(`[CRSqliteWorkerClientBase] Error applying changes:`, error);
       throw error;
@@ -268,14 +780,83 @@ export class CRSqliteWorkerClientBase {
     }
   }
 
-  async requestSync(): Promise<void> {
+  // Resolves with the number of applied changes once the snapshot has landed
+  async requestSync(options?: RequestOptions): Promise<number> {
     if (!this.isStarted) {
-      console.warn("[CRSqliteWorkerClientBase] Cannot sync - not started");
-      return;
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    console.log("[CRSqliteWorkerClientBase] Requesting sync");
+    return this.sendRequest<number>(
+      {
+        type: "sync",
+        versions: { ...this.versionVector },
+        siteId: this.siteId!,
+        compressions: supportedCompressions(),
+      },
+      `sync-${this.execRequestCounter++}`,
+      "Database sync timeout",
+      options
+    );
+  }
+
+  // Outgoing queue of the worker's remote sync with its next retry, and
+  // the bytes compression saved
+  async getSyncStatus(options?: RequestOptions): Promise<SyncStatus> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    return this.sendRequest<SyncStatus>(
+      { type: "sync-status" },
+      `sync-status-${this.execRequestCounter++}`,
+      "Sync status timeout",
+      options
+    );
+  }
+
+  // All changes of the worker's database as a file another browser can
+  // import. Given the header of an earlier export of the same database,
+  // only what came after it.
+  async exportChanges(
+    after?: ChangesetFileHeader,
+    options?: RequestOptions
+  ): Promise<{ file: Blob; header: ChangesetFileHeader }> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
     }
 
-    console.log("[CRSqliteWorkerClientBase] Requesting manual sync");
-    this.postMessage({ type: "sync" });
+    const { file, header } = await this.sendRequest<{
+      file: ArrayBuffer;
+      header: ChangesetFileHeader;
+    }>(
+      { type: "export", versions: after?.until, exportedBy: after?.siteId },
+      `export-${this.execRequestCounter++}`,
+      "Export timeout",
+      options
+    );
+    return { file: new Blob([file], { type: CHANGESET_FILE_TYPE }), header };
+  }
+
+  // Resolves with the number of changes in the file. They're merged by the
+  // worker and reach every tab, this one included, as a broadcast.
+  async importChanges(
+    file: Blob | ArrayBuffer,
+    options?: RequestOptions
+  ): Promise<number> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    return this.sendRequest<number>(
+      {
+        type: "import",
+        file: file instanceof Blob ? await file.arrayBuffer() : file,
+      },
+      `import-${this.execRequestCounter++}`,
+      "Import timeout",
+      options
+    );
   }
 
   // Event handler setters
@@ -283,7 +864,19 @@ export class CRSqliteWorkerClientBase {
     this.onSyncDataReceived = handler;
   }
 
-  onErrorOccurred(handler: (error: string) => void): void {
+  // Called after every applied sync chunk
+  onSyncProgress(handler: (progress: SyncProgress) => void): void {
+    this.onSyncProgressUpdate = handler;
+  }
+
+  // Called after the client resynced by itself because broadcasts were missed
+  onResynced(handler: (info: ResyncInfo) => void): void {
+    this.onResync = handler;
+  }
+
+  onErrorOccurred(
+    handler: (error: string, cause?: CRSqliteWorkerError) => void
+  ): void {
     this.onError = handler;
   }
 
@@ -295,6 +888,11 @@ export class CRSqliteWorkerClientBase {
     return this.lastBroadcastVersion;
   }
 
+  // Highest local version the worker confirmed it stored
+  getAckedVersion(): number {
+    return this.ackedVersion;
+  }
+
   isRunning(): boolean {
     return this.isStarted;
   }
@@ -303,9 +901,26 @@ export class CRSqliteWorkerClientBase {
     return this.workerSiteId;
   }
 
+  getStatementCacheStats(): StatementCacheStats {
+    return this.statements.getStats();
+  }
+
+  // Changes this tab sent to the worker, getSyncStatus has the worker's
+  getCompressionStats(): CompressionStats {
+    return { ...this.compressionStats };
+  }
+
+  // Over a port only the worker reads our changes, on the channel other
+  // tabs' workers may too and only the fallback is sure to suit them all
+  private uploadCompression(): ChangesetCompression | null {
+    const formats = this.compressionStats.formats;
+    if (this.delivery === "ports") return formats[0] ?? null;
+    return formats.includes(FALLBACK_COMPRESSION) ? FALLBACK_COMPRESSION : null;
+  }
+
   // Method to trigger sync manually (called by local changes)
   triggerSync(): void {
-    if (!this.isStarted) return;
+    if (!this.isStarted || this.incompatible) return;
     console.log("[CRSqliteWorkerClientBase] Triggering sync due to local changes");
     // Force immediate change detection
     this.checkForLocalChanges();
@@ -323,15 +938,33 @@ export class CRSqliteWorkerClientBase {
           `[CRSqliteWorkerClientBase] Found ${changes.length} local changes after broadcast version ${this.lastBroadcastVersion}`
         );
 
-        this.broadcastMessage({
+        const payload = await packChangeset(
+          changes,
+          this.uploadCompression(),
+          this.compressionStats.threshold,
+          this.compressionStats
+        );
+        const message: BroadcastMessage = {
           type: "changes",
-          data: changes,
+          ...payload,
           sourceTabId: this.tabId,
-        });
+          sinceVersion: this.lastBroadcastVersion,
+        };
+        if (this.delivery === "ports") {
+          // Only the worker reads it, no need to copy
+          this.postMessage(
+            { type: "changes", data: message },
+            { transfer: [payload.changeset] }
+          );
+        } else {
+          this.broadcastMessage(message);
+        }
 
-        // Update the last broadcast version to prevent re-broadcasting
+        // Not re-broadcast on the next check, but kept in the outbox
+        // until the worker acknowledges them
         const maxVersion = Math.max(...changes.map((c) => c.db_version));
         this.lastBroadcastVersion = maxVersion;
+        this.scheduleOutboxRetry();
         console.log(
           `[CRSqliteWorkerClientBase] Broadcasted ${changes.length} changes, updated broadcast version to ${maxVersion}`
         );
@@ -348,40 +981,284 @@ export class CRSqliteWorkerClientBase {
   }
 
   // Remote database execution method
-  async dbExec(sql: string, args: any[] = []): Promise<any> {
+  async dbExec(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<any> {
+    return this.execRemote(sql, args, "none", options);
+  }
+
+  // Remote execution returning an object per row, like db.execO
+  async dbExecO<T extends {}>(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<T[]> {
+    return (await this.execRemote(sql, args, "objects", options)) ?? [];
+  }
+
+  // Remote execution returning an array per row, like db.execA
+  async dbExecA<T extends any[] = any[]>(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<T[]> {
+    return (await this.execRemote(sql, args, "rows", options)) ?? [];
+  }
+
+  // Read-only query against the worker's database, the worker refuses
+  // statements that would write and skips the change broadcast
+  async dbQuery<T extends {}>(
+    sql: string,
+    args: any[] = [],
+    options?: RequestOptions
+  ): Promise<T[]> {
     if (!this.isStarted) {
       throw new Error("CRSqliteWorkerClientBase not started");
     }
 
-    return new Promise((resolve, reject) => {
-      const requestId = `exec-${this.execRequestCounter++}`;
+    const result = await this.sendRequest<T[] | null>(
+      {
+        type: "query",
+        sql,
+        args,
+        resultMode: "objects",
+      },
+      `query-${this.execRequestCounter++}`,
+      "Database query timeout",
+      options
+    );
+    return result ?? [];
+  }
+
+  // Registers a live query with the worker, onResult gets the initial rows
+  // and every changed result after that. Resolves with the unsubscribe
+  // function.
+  async subscribe<T extends {}>(
+    sql: string,
+    args: any[],
+    onResult: (rows: T[]) => void,
+    options?: RequestOptions
+  ): Promise<() => Promise<void>> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    const subscriptionId = `${this.tabId}-sub-${this.execRequestCounter++}`;
+    this.subscriptions.set(subscriptionId, {
+      sql,
+      args,
+      onResult: onResult as (result: any[]) => void,
+    });
+
+    try {
+      await this.sendRequest<SubscribeResult>(
+        { type: "subscribe", sql, args, subscriptionId },
+        `subscribe-${this.execRequestCounter++}`,
+        "Database subscribe timeout",
+        options
+      );
+    } catch (error) {
+      this.subscriptions.delete(subscriptionId);
+      throw error;
+    }
+
+    return async () => {
+      if (!this.subscriptions.delete(subscriptionId)) return;
+      await this.sendRequest(
+        { type: "unsubscribe", subscriptionId },
+        `unsubscribe-${this.execRequestCounter++}`,
+        "Database unsubscribe timeout"
+      );
+    };
+  }
+
+  // Streams a large result set from the worker in batches, breaking out of
+  // the loop closes the cursor on the worker
+  async *dbCursor<T extends {}>(
+    sql: string,
+    args: any[] = [],
+    { batchSize = 500, ...options }: CursorOptions = {}
+  ): AsyncGenerator<T> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    const { cursorId, columns } = await this.sendRequest<CursorOpenResult>(
+      { type: "cursor-open", sql, args },
+      `cursor-${this.execRequestCounter++}`,
+      "Database cursor timeout",
+      options
+    );
+
+    let done = false;
+    try {
+      while (!done) {
+        const batch = await this.sendRequest<CursorFetchResult>(
+          { type: "cursor-fetch", cursorId, count: batchSize },
+          `cursor-${this.execRequestCounter++}`,
+          "Database cursor timeout",
+          options
+        );
+        done = batch.done;
+
+        for (const row of batch.rows) {
+          const o: any = {};
+          for (let i = 0; i < columns.length; i++) o[columns[i]] = row[i];
+          yield o as T;
+        }
+      }
+    } finally {
+      // Worker closes exhausted cursors by itself
+      if (!done && this.isStarted) {
+        await this.sendRequest(
+          { type: "cursor-close", cursorId },
+          `cursor-${this.execRequestCounter++}`,
+          "Database cursor timeout"
+        ).catch((error) =>
+          console.warn("[CRSqliteWorkerClientBase] Failed to close cursor:", error)
+        );
+      }
+    }
+  }
+
+  private async execRemote(
+    sql: string,
+    args: any[],
+    resultMode: ResultMode,
+    options?: RequestOptions
+  ): Promise<any> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    return this.sendRequest(
+      {
+        type: "exec",
+        sql,
+        args,
+        resultMode,
+      },
+      `exec-${this.execRequestCounter++}`,
+      "Database execution timeout",
+      options
+    );
+  }
+
+  // Remote transaction, statements run in order and are rolled back together
+  async dbTx(
+    statements: TxStatement[],
+    options?: RequestOptions
+  ): Promise<any[]> {
+    if (!this.isStarted) {
+      throw new Error("CRSqliteWorkerClientBase not started");
+    }
+
+    return this.sendRequest<any[]>(
+      {
+        type: "tx",
+        statements,
+      },
+      `tx-${this.execRequestCounter++}`,
+      "Database transaction timeout",
+      options
+    );
+  }
+
+  // Posts a message to the worker and waits for the reply with the same requestId
+  private sendRequest<T>(
+    message: WorkerMessage,
+    requestId: string,
+    timeoutMessage: string,
+    {
+      timeoutMs = DEFAULT_TIMEOUT_MS,
+      signal,
+      idempotent = message.type === "sync" ||
+        message.type === "query" ||
+        message.type === "sync-status" ||
+        message.type === "export" ||
+        message.type === "import",
+    }: RequestOptions = {}
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortReason(signal));
+        return;
+      }
+
+      if (this.incompatible) {
+        reject(this.incompatible);
+        return;
+      }
+
+      if (this.hostLost && !idempotent) {
+        reject(
+          new CRSqliteWorkerError(
+            "HOST_LOST",
+            "Worker host lost, waiting for a new one"
+          )
+        );
+        return;
+      }
 
-      // Store the promise handlers
       let timeout: ReturnType<typeof setTimeout> | null = null;
+      const onAbort = () => this.cancelRequest(requestId, abortReason(signal!));
+      const cleanup = () => {
+        if (timeout) clearTimeout(timeout);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      // Set a timeout to avoid hanging forever, tell the worker to drop it
+      const startTimeout = () => {
+        if (timeout) clearTimeout(timeout);
+        timeout = setTimeout(
+          () => this.cancelRequest(requestId, new Error(timeoutMessage)),
+          timeoutMs
+        );
+      };
 
+      // Store the promise handlers
+      const request = { ...message, requestId };
       this.pendingExecRequests.set(requestId, {
+        message: request,
+        idempotent,
         resolve: (v) => {
-          if (timeout) clearTimeout(timeout);
+          cleanup();
           resolve(v);
         },
-        reject,
+        reject: (e) => {
+          cleanup();
+          reject(e);
+        },
+        touch: startTimeout,
       });
 
-      // Send exec message to worker with request ID
-      this.postMessage({
-        type: "exec",
-        sql,
-        args,
-        requestId,
-      });
+      // Send message to worker with request ID, or leave it for the replay
+      if (!this.hostLost) this.postMessage(request);
 
-      // Set a timeout to avoid hanging forever
-      timeout = setTimeout(() => {
-        if (this.pendingExecRequests.has(requestId)) {
-          this.pendingExecRequests.delete(requestId);
-          reject(new Error("Database execution timeout"));
-        }
-      }, 10000); // 10 second timeout
+      startTimeout();
+      signal?.addEventListener("abort", onAbort, { once: true });
     });
   }
+
+  // Rejects a pending request and asks the worker to skip it
+  private cancelRequest(requestId: string, reason: Error): void {
+    if (!this.settleRequest(requestId, undefined, reason)) return;
+
+    try {
+      this.postMessage({ type: "cancel", requestId });
+    } catch (error) {
+      console.warn(
+        "[CRSqliteWorkerClientBase] Failed to send cancel for",
+        requestId,
+        error
+      );
+    }
+  }
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException("Database request aborted", "AbortError");
 }
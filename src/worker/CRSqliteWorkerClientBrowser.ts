@@ -1,8 +1,28 @@
 // Reusable CRSqlite Tab Synchronization class
 import { DB } from "@vlcn.io/crsqlite-wasm";
-import { BroadcastMessage, WorkerMessage } from "./CRSqliteWorkerBase";
-import { CRSqliteWorkerClientBase } from "./CRSqliteWorkerClientBase";
+import {
+  BroadcastMessage,
+  DEFAULT_DB_NAME,
+  WorkerMessage,
+} from "./CRSqliteWorkerBase";
+import {
+  CRSqliteWorkerClientBase,
+  CRSqliteWorkerError,
+} from "./CRSqliteWorkerClientBase";
 import { LeaderWebWorker, stableName } from "./LeaderWebWorker";
+import {
+  BroadcastChannelTransport,
+  SyncTransport,
+  syncChannelName,
+} from "./SyncTransport";
+
+export { DEFAULT_DB_NAME };
+
+// Backoff between attempts to bring up a new worker host, doubling from
+// the base up to the cap, and how many attempts before giving up
+const RECONNECT_BASE_MS = 500;
+const RECONNECT_MAX_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 8;
 
 function supportsNativeSharedWorkerModule(): boolean {
   try {
@@ -21,79 +41,63 @@ function supportsNativeSharedWorkerModule(): boolean {
 export class CRSqliteWorkerClientBrowser extends CRSqliteWorkerClientBase {
   private worker: LeaderWebWorker | null = null;
   private port: MessagePort | null = null;
-  private broadcastChannel: BroadcastChannel | null = null;
+  // Given to the constructor, or a BroadcastChannel created on start
+  private configuredTransport: SyncTransport | null;
+  private transport: SyncTransport | null = null;
+  private unsubscribeTransport: (() => void) | null = null;
   private sharedWorkerUrl?: string;
   private dedicatedWorkerUrl?: string;
+  // Worker instance, election and channel are all derived from it
+  private dbName: string;
+  // Failed reconnects since the last "ready", and the next one scheduled
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
   constructor({
     db,
     onTablesChanged,
     sharedWorkerUrl,
     dedicatedWorkerUrl,
+    transport,
+    dbName = DEFAULT_DB_NAME,
   }: {
     db: DB;
     onTablesChanged?: (tables: string[]) => void;
     sharedWorkerUrl?: string;
     dedicatedWorkerUrl?: string;
+    transport?: SyncTransport;
+    dbName?: string;
   }) {
     super(db, onTablesChanged);
+    this.configuredTransport = transport || null;
     this.sharedWorkerUrl = sharedWorkerUrl;
     this.dedicatedWorkerUrl = dedicatedWorkerUrl;
+    this.dbName = dbName;
   }
 
   async start(): Promise<void> {
-    super.start();
-
     if (this.isStarted) return;
 
-    // reset to run the second part of the start routine
-    this.isStarted = true;
+    // Local site_id and schema hash must be known before the worker's
+    // "ready" handshake arrives
+    await super.start();
+
     try {
-      if (this.sharedWorkerUrl && supportsNativeSharedWorkerModule()) {
-        // Initialize shared worker
-        const worker = new SharedWorker(this.sharedWorkerUrl, {
-          type: "module",
-          name: stableName(String(this.sharedWorkerUrl)),
-        });
-
-        this.port = worker.port;
-
-        // Set up worker message handling
-        this.port.addEventListener("message", (e) =>
-          this.handleWorkerMessage(e.data)
-        );
-        this.port.start();
-      } else if (this.dedicatedWorkerUrl) {
-        // Initialize shared worker
-        this.worker = new LeaderWebWorker(this.dedicatedWorkerUrl, {
-          type: "module",
-        });
-
-        // Set up worker message handling
-        this.worker.addEventListener("message", (e: MessageEvent) =>
-          this.handleWorkerMessage(e.data)
-        );
-        this.worker.addEventListener("error", ({reason, error}: { reason: string, error?: unknown }) => {
-          console.error("[CRSqliteWorkerClientBrowser] Failed to start:", reason, error);
-          if (this.onError) {
-            this.onError(reason);
-          }
-        });
-
-        // Starts the worker if tab is leader
-        await this.worker.start();
-      } else {
-        throw new Error("Supported worker mode not available");
-      }
+      await this.connectWorker();
 
-      // Set up broadcast channel
-      this.broadcastChannel = new BroadcastChannel("db-sync");
-      this.broadcastChannel.addEventListener("message", (e) =>
-        this.handleBroadcastMessage(e.data)
+      // Set up sync transport
+      this.transport =
+        this.configuredTransport ||
+        new BroadcastChannelTransport(syncChannelName(this.dbName));
+      this.unsubscribeTransport = this.transport.subscribe((message) =>
+        this.handleBroadcastMessage(message)
       );
 
-      // Request initial sync immediately
-      this.postMessage({ type: "sync" });
+      // Request initial sync and wait until the snapshot is applied
+      const applied = await this.requestSync();
+      console.log(
+        `[CRSqliteWorkerClientBrowser] Initial sync applied ${applied} changes`
+      );
 
       this.isStarted = true;
       console.log("[CRSqliteWorkerClientBrowser] Started successfully");
@@ -102,36 +106,189 @@ export class CRSqliteWorkerClientBrowser extends CRSqliteWorkerClientBase {
       if (this.onError) {
         this.onError((error as Error).message);
       }
+      // The caller never gets a client to stop, don't leave the worker
+      // connection and the transport behind
+      this.stop();
       throw error;
     }
   }
 
-  stop(): void {
-    if (!this.isStarted) return;
+  private async connectWorker(): Promise<void> {
+    if (this.sharedWorkerUrl && supportsNativeSharedWorkerModule()) {
+      // One shared worker per database, it opens the file named by self.name
+      const worker = new SharedWorker(this.sharedWorkerUrl, {
+        type: "module",
+        name: this.dbName,
+      });
 
-    console.log("[CRSqliteWorkerClientBrowser] Stopping...");
+      const port = worker.port;
+      this.port = port;
+
+      // Set up worker message handling
+      this.port.addEventListener("message", (e) =>
+        this.handleWorkerMessage(e.data)
+      );
+      worker.addEventListener("error", (error) => {
+        // Errors of a host we already replaced
+        if (this.port !== port) return;
+        console.error("[CRSqliteWorkerClientBrowser] Shared worker error:", error);
+        this.handleHostLost("WORKER_ERROR");
+        this.scheduleReconnect();
+      });
+      this.port.start();
+    } else if (this.dedicatedWorkerUrl) {
+      // Initialize shared worker
+      // Leader election per database, the winner's worker opens self.name
+      const leader = new LeaderWebWorker(this.dedicatedWorkerUrl, {
+        type: "module",
+        name: stableName(this.dbName),
+        workerName: this.dbName,
+      });
+      this.worker = leader;
+
+      // Set up worker message handling
+      this.worker.addEventListener("message", (e: MessageEvent) =>
+        this.handleWorkerMessage(e.data)
+      );
+      this.worker.addEventListener("error", ({reason, error}: { reason: string, error?: unknown }) => {
+        if (this.worker !== leader) return;
+        console.error("[CRSqliteWorkerClientBrowser] Worker error:", reason, error);
+        if (this.onError) {
+          this.onError(reason);
+        }
+        if (reason === "LEADERSHIP_LOST" || reason === "WORKER_ERROR") {
+          this.handleHostLost(reason);
+          this.scheduleReconnect();
+        }
+      });
+
+      // Starts the worker if tab is leader
+      await this.worker.start();
+    } else {
+      throw new Error("Supported worker mode not available");
+    }
+  }
+
+  protected hostReady(): void {
+    this.reconnectAttempts = 0;
+  }
+
+  // Host errors keep coming while a broken script fails to load, so
+  // attempts back off and stop after a while
+  private scheduleReconnect(): void {
+    if (!this.isStarted || this.reconnectTimer) return;
+
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      const error = new CRSqliteWorkerError(
+        "HOST_LOST",
+        `Worker host lost, gave up after ${this.reconnectAttempts} reconnects`
+      );
+      console.error("[CRSqliteWorkerClientBrowser]", error.message);
+      this.abandonPendingRequests(error);
+      if (this.onError) {
+        this.onError(error.message, error);
+      }
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_MAX_MS,
+      RECONNECT_BASE_MS * 2 ** this.reconnectAttempts
+    );
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(async () => {
+      const retry = await this.reconnect();
+      this.reconnectTimer = null;
+      if (retry) this.scheduleReconnect();
+    }, delay);
+  }
+
+  // Brings up a new worker host, pending idempotent requests are replayed
+  // once it sends "ready". Resolves with whether another attempt may help.
+  private async reconnect(): Promise<boolean> {
+    if (!this.isStarted) return false;
+
+    console.log("[CRSqliteWorkerClientBrowser] Reconnecting to a new worker host");
+    await this.disconnectWorker();
+
+    try {
+      await this.connectWorker();
+      return false;
+    } catch (error) {
+      console.error("[CRSqliteWorkerClientBrowser] Failed to reconnect:", error);
+
+      // Another tab hosts the worker now, no "ready" is coming for us
+      if ((error as any).code === "ACTIVE_ELSEWHERE") {
+        const lost = new CRSqliteWorkerError(
+          "HOST_LOST",
+          "Worker host lost, the database is active in another tab"
+        );
+        this.abandonPendingRequests(lost);
+        if (this.onError) {
+          this.onError(lost.message, lost);
+        }
+        return false;
+      }
 
-    if (this.broadcastChannel) {
-      this.broadcastChannel.close();
-      this.broadcastChannel = null;
+      if (this.onError) {
+        this.onError((error as Error).message);
+      }
+      return true;
     }
+  }
 
+  private async disconnectWorker(): Promise<void> {
     if (this.port) {
       this.port.close();
       this.port = null;
     }
 
-    this.worker = null;
+    if (this.worker) {
+      const worker = this.worker;
+      this.worker = null;
+      await worker.terminate();
+    }
+  }
+
+  stop(): void {
+    if (!this.isStarted) return;
+
+    console.log("[CRSqliteWorkerClientBrowser] Stopping...");
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+
+    // Rejects pending requests and resets sync state
+    super.stop();
+
+    if (this.unsubscribeTransport) {
+      this.unsubscribeTransport();
+      this.unsubscribeTransport = null;
+    }
+    // A transport given to the constructor belongs to the caller
+    if (this.transport && this.transport !== this.configuredTransport) {
+      this.transport.close();
+    }
+    this.transport = null;
+
+    this.disconnectWorker();
 
     console.log("[CRSqliteWorkerClientBrowser] Stopped");
   }
 
-  protected postMessage(message: WorkerMessage): void {
-    if (this.port) this.port.postMessage(message);
-    else this.worker!.postMessage(message);
+  protected postMessage(
+    message: WorkerMessage,
+    options?: StructuredSerializeOptions
+  ): void {
+    if (this.port) this.port.postMessage(message, options);
+    else if (this.worker) this.worker.postMessage(message, options);
+    else throw new Error("Worker not connected");
   }
 
   protected broadcastMessage(message: BroadcastMessage): void {
-    this.broadcastChannel!.postMessage(message);
+    this.transport!.post(message);
   }
 }
@@ -0,0 +1,147 @@
+// Request/response sync with a server, for networks that drop long-lived
+// sockets
+import type { Change } from "./CRSqliteWorkerBase";
+import {
+  decodeChange,
+  encodeChange,
+  RemoteSync,
+  RemoteSyncHost,
+  WireChange,
+} from "./RemoteSync";
+
+// Endpoints of the reference server in server/sync-server.js
+// POST {url}/push body HttpPushRequest -> HttpPushResponse
+// GET {url}/pull?site=&cursor= -> HttpPullResponse
+export interface HttpPushRequest {
+  site: string;
+  changes: WireChange[];
+}
+
+export interface HttpPushResponse {
+  // Highest db_version of the push, stored on the server
+  version: number;
+}
+
+export interface HttpPullResponse {
+  changes: WireChange[];
+  // Server position after these changes, sent with the next pull
+  cursor: number;
+}
+
+export interface HttpSyncOptions {
+  url: string;
+  // Time between automatic pulls, defaults to 5s
+  intervalMs?: number;
+}
+
+export class HttpSync implements RemoteSync {
+  private url: string;
+  private intervalMs: number;
+  private host: RemoteSyncHost | null = null;
+  private interval: ReturnType<typeof setInterval> | null = null;
+  // Pull in progress, and whether another one was asked for meanwhile
+  private running: Promise<void> | null = null;
+  private again = false;
+
+  constructor({ url, intervalMs = 5000 }: HttpSyncOptions) {
+    this.url = url.replace(/\/+$/, "");
+    this.intervalMs = intervalMs;
+  }
+
+  // Progress is kept per server
+  get peer(): string {
+    return `http:${this.url}`;
+  }
+
+  async start(host: RemoteSyncHost): Promise<void> {
+    this.host = host;
+    this.interval = setInterval(
+      () =>
+        this.pullOnce().catch((error) =>
+          console.warn("[HttpSync] Pull failed, retrying later:", error)
+        ),
+      this.intervalMs
+    );
+    await this.pullOnce();
+  }
+
+  async send(changes: Change[]): Promise<void> {
+    const host = this.host;
+    if (!host) throw new Error("HttpSync not started");
+
+    const body: HttpPushRequest = {
+      site: host.siteIdHex,
+      changes: changes.map(encodeChange),
+    };
+    const response = await this.request<HttpPushResponse>("/push", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    console.log(
+      `[HttpSync] Pushed ${changes.length} changes up to ${response.version}`
+    );
+  }
+
+  // On demand: retries queued pushes now and pulls remote changes
+  requestSync(): Promise<void> {
+    this.host?.flush();
+    return this.pullOnce();
+  }
+
+  // Concurrent calls share one pull, with another one after it if needed
+  private pullOnce(): Promise<void> {
+    if (this.running) {
+      this.again = true;
+      return this.running;
+    }
+
+    this.running = (async () => {
+      try {
+        do {
+          this.again = false;
+          await this.pull();
+        } while (this.again && this.host);
+      } finally {
+        this.running = null;
+      }
+    })();
+    return this.running;
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.host = null;
+  }
+
+  private async pull(): Promise<void> {
+    const host = this.host;
+    if (!host) return;
+
+    const cursor = await host.peers.get(this.peer, "received");
+    const params = new URLSearchParams({
+      site: host.siteIdHex,
+      cursor: String(cursor),
+    });
+    const response = await this.request<HttpPullResponse>(`/pull?${params}`);
+
+    if (response.changes.length > 0) {
+      console.log(`[HttpSync] Pulled ${response.changes.length} changes`);
+      await host.applyRemoteChanges(response.changes.map(decodeChange));
+    }
+    await host.peers.advance(this.peer, "received", response.cursor);
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.url}${path}`, init);
+    if (!response.ok) {
+      throw new Error(
+        `HTTP sync ${path} failed: ${response.status} ${await response.text()}`
+      );
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,56 @@
+// In-process stand-in for a Nostr relay, NostrSync instances sharing one
+// behave like devices on the same relay without any network
+import { Event, Filter, matchFilter, verifyEvent } from "nostr-tools";
+import type { NostrRelayClient } from "./NostrSync";
+
+interface RelaySubscription {
+  filter: Filter;
+  onEvent: (event: Event) => void;
+}
+
+export class InMemoryRelay implements NostrRelayClient {
+  private events = new Map<string, Event>();
+  private subscriptions = new Set<RelaySubscription>();
+
+  // Rejects badly signed events like a real relay, duplicates are ignored
+  async publish(event: Event): Promise<void> {
+    if (!verifyEvent(event)) throw new Error("invalid: bad signature");
+    if (this.events.has(event.id)) return;
+
+    this.events.set(event.id, event);
+    for (const subscription of this.subscriptions) {
+      if (matchFilter(subscription.filter, event)) {
+        queueMicrotask(() => subscription.onEvent(event));
+      }
+    }
+  }
+
+  subscribe(
+    filter: Filter,
+    onEvent: (event: Event) => void,
+    onStored: () => void
+  ): () => void {
+    const subscription = { filter, onEvent };
+    this.subscriptions.add(subscription);
+
+    const stored = [...this.events.values()]
+      .filter((event) => matchFilter(filter, event))
+      .sort((a, b) => a.created_at - b.created_at);
+    queueMicrotask(() => {
+      for (const event of stored) {
+        if (this.subscriptions.has(subscription)) onEvent(event);
+      }
+      if (this.subscriptions.has(subscription)) onStored();
+    });
+
+    return () => this.subscriptions.delete(subscription);
+  }
+
+  close(): void {
+    this.subscriptions.clear();
+  }
+
+  getEvents(): Event[] {
+    return [...this.events.values()];
+  }
+}
@@ -1,7 +1,8 @@
 import { BroadcastChannel, createLeaderElection, LeaderElector } from "broadcast-channel";
 
 type WorkerType = "classic" | "module";
-export type LeaderWebWorkerOptions = { name?: string; type?: WorkerType };
+// name: election name, workerName: passed to the Worker as self.name
+export type LeaderWebWorkerOptions = { name?: string; workerName?: string; type?: WorkerType };
 
 type MsgHandler = (ev: MessageEvent) => void;
 type ErrHandler = (ev: { reason: string; error?: unknown }) => void;
@@ -9,6 +10,7 @@ type ErrHandler = (ev: { reason: string; error?: unknown }) => void;
 export class LeaderWebWorker {
   private url: string | URL;
   private name: string;
+  private workerName?: string;
   private type: WorkerType;
 
   private chan?: BroadcastChannel<any>;
@@ -24,6 +26,7 @@ export class LeaderWebWorker {
   constructor(workerUrl: string | URL, opts?: LeaderWebWorkerOptions) {
     this.url = workerUrl;
     this.name = opts?.name ?? stableName(String(workerUrl));
+    this.workerName = opts?.workerName;
     this.type = opts?.type ?? (supportsModuleDedicatedWorker() ? "module" : "classic");
   }
 
@@ -39,9 +42,9 @@ export class LeaderWebWorker {
     else this.errHandlers.delete(fn as ErrHandler);
   }
 
-  postMessage(data: any) {
+  postMessage(data: any, options?: StructuredSerializeOptions) {
     if (!this.started || !this.worker || !this._isLeader) throw new Error("Worker not started or not leader");
-    this.worker.postMessage(data);
+    this.worker.postMessage(data, options);
   }
 
   async start(): Promise<void> {
@@ -83,7 +86,7 @@ export class LeaderWebWorker {
     };
 
     const absUrl = String(new URL(String(this.url), globalThis.location?.href));
-    const w = new Worker(absUrl, { type: this.type });
+    const w = new Worker(absUrl, { type: this.type, name: this.workerName });
     w.onmessage = (ev) => this.emitMessage(ev.data);
     w.onerror = (ev) => this.emitError({ reason: "WORKER_ERROR", error: ev });
 
@@ -0,0 +1,287 @@
+// Replicates change batches through Nostr relays between the devices of
+// one user. Every device holds the same key, events are signed with it and
+// encrypted to its own public key, so relays only see opaque content.
+import {
+  Event,
+  Filter,
+  finalizeEvent,
+  getPublicKey,
+  nip44,
+  SimplePool,
+} from "nostr-tools";
+import { Change, siteIdHex } from "./CRSqliteWorkerBase";
+import {
+  decodeChange,
+  encodeChange,
+  RejectedChangesError,
+  RemoteSync,
+  RemoteSyncHost,
+  WireChange,
+} from "./RemoteSync";
+
+// Regular (stored, not replaceable) event kind for change batches
+export const CHANGES_EVENT_KIND = 7364;
+
+// Common relay limit for a whole event. The encrypted content is padded
+// and base64 encoded, id, pubkey, sig and tags come on top.
+const MAX_EVENT_BYTES = 64 * 1024;
+const EVENT_OVERHEAD_BYTES = 1024;
+// NIP-44 limit for the plaintext
+const MAX_PLAINTEXT_BYTES = 65535;
+
+// Resuming goes back this far before the last applied event, devices'
+// clocks disagree and a late publish can carry an older created_at.
+// Events seen twice merge as no-ops.
+const RESUME_MARGIN_SECONDS = 10 * 60;
+
+const encoder = new TextEncoder();
+
+// Where events go, relays through SimplePool or InMemoryRelay in tests
+export interface NostrRelayClient {
+  // Resolves once at least one relay accepted the event
+  publish(event: Event): Promise<void>;
+  // Stored matching events first, in no particular order, then onStored,
+  // then live ones. Returns the unsubscribe function.
+  subscribe(
+    filter: Filter,
+    onEvent: (event: Event) => void,
+    onStored: () => void
+  ): () => void;
+  close(): void;
+}
+
+export class PoolRelayClient implements NostrRelayClient {
+  private relays: string[];
+  private pool = new SimplePool();
+
+  constructor(relays: string[]) {
+    this.relays = relays;
+  }
+
+  async publish(event: Event): Promise<void> {
+    const results = await Promise.allSettled(
+      this.pool.publish(this.relays, event)
+    );
+    const rejected = results.filter(
+      (r): r is PromiseRejectedResult => r.status === "rejected"
+    );
+    if (rejected.length === results.length) {
+      throw new Error(
+        `No relay accepted the event: ${rejected.map((r) => r.reason).join(", ")}`
+      );
+    }
+  }
+
+  subscribe(
+    filter: Filter,
+    onEvent: (event: Event) => void,
+    onStored: () => void
+  ): () => void {
+    const sub = this.pool.subscribeMany(this.relays, filter, {
+      onevent: onEvent,
+      oneose: onStored,
+    });
+    return () => sub.close();
+  }
+
+  close(): void {
+    this.pool.close(this.relays);
+  }
+}
+
+export interface NostrSyncOptions {
+  // The user's key, shared by all their devices
+  secretKey: Uint8Array;
+  relay: NostrRelayClient;
+  // Tags the events, databases sharing a key don't see each other's
+  dbName: string;
+}
+
+export class NostrSync implements RemoteSync {
+  private secretKey: Uint8Array;
+  private publicKey: string;
+  private conversationKey: Uint8Array;
+  private relay: NostrRelayClient;
+  private dbName: string;
+  private host: RemoteSyncHost | null = null;
+  private unsubscribe: (() => void) | null = null;
+  // Sites whose changes came from other devices, not published again
+  private foreignSites = new Set<string>();
+  // Remote batches are applied one after the other
+  private applying: Promise<void> = Promise.resolve();
+  // Stored events may come newest first, progress is saved only once all
+  // of them are applied
+  private replaying = true;
+  private replayedUntil = 0;
+
+  constructor({ secretKey, relay, dbName }: NostrSyncOptions) {
+    this.secretKey = secretKey;
+    this.publicKey = getPublicKey(secretKey);
+    this.conversationKey = nip44.getConversationKey(secretKey, this.publicKey);
+    this.relay = relay;
+    this.dbName = dbName;
+  }
+
+  // Progress is kept per key and database, "received" is an event timestamp
+  get peer(): string {
+    return `nostr:${this.publicKey}:${this.dbName}`;
+  }
+
+  async start(host: RemoteSyncHost): Promise<void> {
+    this.host = host;
+    this.replaying = true;
+    this.replayedUntil = 0;
+
+    const received = await host.peers.get(this.peer, "received");
+    this.unsubscribe = this.relay.subscribe(
+      {
+        kinds: [CHANGES_EVENT_KIND],
+        authors: [this.publicKey],
+        "#c": [this.dbName],
+        since: Math.max(0, received - RESUME_MARGIN_SECONDS),
+      },
+      (event) => this.handleEvent(event),
+      () => this.handleStored()
+    );
+  }
+
+  // Publishes changes made on this device, in as many events as the
+  // encryption size limit needs
+  async send(changes: Change[]): Promise<void> {
+    const host = this.host;
+    if (!host) throw new Error("NostrSync not started");
+
+    const own = changes.filter(
+      (c) => !this.foreignSites.has(siteIdHex(c.site_id))
+    );
+    // One oversized change would fail every retry and hold up the queue
+    // behind it, it's rejected once the rest is out
+    const sendable: Change[] = [];
+    const oversized: Change[] = [];
+    for (const change of own) {
+      (fitsEvent(1 + changeSize(change)) ? sendable : oversized).push(change);
+    }
+    const batches = this.toBatches(sendable);
+    for (const batch of batches) {
+      await this.relay.publish(this.signBatch(host, batch));
+    }
+    if (sendable.length > 0) {
+      console.log(
+        `[NostrSync] Published ${sendable.length} changes in ${batches.length} events`
+      );
+    }
+    if (oversized.length > 0) {
+      throw new RejectedChangesError(
+        oversized,
+        `${oversized.length} changes are too large for a Nostr event`
+      );
+    }
+  }
+
+  stop(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    this.host = null;
+  }
+
+  private handleEvent(event: Event): void {
+    const host = this.host;
+    if (!host) return;
+
+    // Our own batches coming back
+    const site = event.tags.find((t) => t[0] === "site")?.[1];
+    if (site === host.siteIdHex) return;
+
+    this.applying = this.applying
+      .then(async () => {
+        const wire: WireChange[] = JSON.parse(
+          nip44.decrypt(event.content, this.conversationKey)
+        );
+        const changes = wire.map(decodeChange);
+        for (const change of wire) this.foreignSites.add(change.site_id);
+
+        console.log(
+          `[NostrSync] Applying ${changes.length} changes from device ${site}`
+        );
+        await host.applyRemoteChanges(changes);
+        if (this.replaying) {
+          this.replayedUntil = Math.max(this.replayedUntil, event.created_at);
+        } else {
+          await host.peers.advance(this.peer, "received", event.created_at);
+        }
+      })
+      .catch((error) =>
+        console.error("[NostrSync] Error applying event:", event.id, error)
+      );
+  }
+
+  private handleStored(): void {
+    const host = this.host;
+    if (!host) return;
+
+    this.applying = this.applying
+      .then(async () => {
+        this.replaying = false;
+        if (this.replayedUntil > 0) {
+          await host.peers.advance(this.peer, "received", this.replayedUntil);
+        }
+      })
+      .catch((error) =>
+        console.error("[NostrSync] Error saving progress:", error)
+      );
+  }
+
+  private toBatches(changes: Change[]): Change[][] {
+    const batches: Change[][] = [];
+    let batch: Change[] = [];
+    // The opening bracket, each change brings its comma or the closing one
+    let bytes = 1;
+    for (const change of changes) {
+      const size = changeSize(change);
+      if (batch.length > 0 && !fitsEvent(bytes + size)) {
+        batches.push(batch);
+        batch = [];
+        bytes = 1;
+      }
+      batch.push(change);
+      bytes += size;
+    }
+    if (batch.length > 0) batches.push(batch);
+    return batches;
+  }
+
+  private signBatch(host: RemoteSyncHost, changes: Change[]): Event {
+    return finalizeEvent(
+      {
+        kind: CHANGES_EVENT_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [
+          ["c", this.dbName],
+          ["site", host.siteIdHex],
+        ],
+        content: nip44.encrypt(
+          JSON.stringify(changes.map(encodeChange)),
+          this.conversationKey
+        ),
+      },
+      this.secretKey
+    );
+  }
+}
+
+// UTF-8 bytes of the change in the event JSON, with its separating comma
+function changeSize(change: Change): number {
+  return encoder.encode(JSON.stringify(encodeChange(change))).length + 1;
+}
+
+// Whether a batch of this many plaintext bytes makes an event relays take.
+// NIP-44 payload: version, nonce, length prefix, padded text and MAC.
+function fitsEvent(plaintextBytes: number): boolean {
+  if (plaintextBytes > MAX_PLAINTEXT_BYTES) return false;
+  const payload =
+    1 + 32 + 2 + nip44.v2.utils.calcPaddedLen(plaintextBytes) + 32;
+  const content = Math.ceil(payload / 3) * 4;
+  return content + EVENT_OVERHEAD_BYTES <= MAX_EVENT_BYTES;
+}
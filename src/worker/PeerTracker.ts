@@ -0,0 +1,77 @@
+// Persisted sync progress per peer (tab site_id or remote endpoint)
+import { DB } from "@vlcn.io/crsqlite-wasm";
+
+// sent: highest db_version of ours the peer was given
+// received: highest db_version of the peer's own changes we applied
+export type PeerDirection = "sent" | "received";
+
+export interface PeerState {
+  peer: string;
+  direction: PeerDirection;
+  version: number;
+}
+
+// Plain table, not a crr, so it never replicates and isn't part of the
+// schema hash
+const CREATE_TABLE_SQL = `CREATE TABLE IF NOT EXISTS sync_peers (
+  peer TEXT NOT NULL,
+  direction TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  PRIMARY KEY (peer, direction)
+)`;
+
+export class PeerTracker {
+  private _db: DB | (() => DB);
+
+  constructor(db: DB | (() => DB)) {
+    this._db = db;
+  }
+
+  get db() {
+    return typeof this._db === "function" ? this._db() : this._db;
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(CREATE_TABLE_SQL);
+  }
+
+  async has(peer: string, direction: PeerDirection): Promise<boolean> {
+    const rows = await this.db.execA(
+      "SELECT 1 FROM sync_peers WHERE peer = ? AND direction = ?",
+      [peer, direction]
+    );
+    return !!rows?.length;
+  }
+
+  async get(peer: string, direction: PeerDirection): Promise<number> {
+    const rows = await this.db.execO<{ version: number }>(
+      "SELECT version FROM sync_peers WHERE peer = ? AND direction = ?",
+      [peer, direction]
+    );
+    return rows?.[0]?.version ?? 0;
+  }
+
+  // Only ever moves forward, late or duplicate updates are harmless
+  async advance(
+    peer: string,
+    direction: PeerDirection,
+    version: number
+  ): Promise<void> {
+    await this.db.exec(
+      `INSERT INTO sync_peers (peer, direction, version) VALUES (?, ?, ?)
+       ON CONFLICT (peer, direction) DO UPDATE SET version = max(version, excluded.version)`,
+      [peer, direction, version]
+    );
+  }
+
+  async forget(peer: string): Promise<void> {
+    await this.db.exec("DELETE FROM sync_peers WHERE peer = ?", [peer]);
+  }
+
+  async getAll(): Promise<PeerState[]> {
+    const rows = await this.db.execO<PeerState>(
+      "SELECT peer, direction, version FROM sync_peers ORDER BY peer, direction"
+    );
+    return rows || [];
+  }
+}
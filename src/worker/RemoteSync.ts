@@ -0,0 +1,114 @@
+// Sync between the worker and replicas outside the browser
+import type { Change } from "./CRSqliteWorkerBase";
+import { siteIdHex } from "./CRSqliteWorkerBase";
+import type { PeerTracker } from "./PeerTracker";
+
+// What the worker offers a remote sync module
+export interface RemoteSyncHost {
+  // Upper-case hex site_id of the worker's database
+  readonly siteIdHex: string;
+  // Per-peer progress, "sent" is a local db_version, "received" whatever
+  // cursor the remote hands out
+  readonly peers: PeerTracker;
+  // Merges remote changes and passes them on to the tabs
+  applyRemoteChanges(changes: Change[]): Promise<void>;
+  // Retries queued changesets right away, e.g. after reconnecting
+  flush(): void;
+}
+
+// Outgoing changes are queued and handed to send() by the SyncScheduler,
+// pulling remote changes is up to the remote
+export interface RemoteSync {
+  // Key of the remote's progress and queued changesets
+  readonly peer: string;
+  start(host: RemoteSyncHost): Promise<void>;
+  // Resolves once the remote stored the changes, rejecting retries later.
+  // Changes the remote can never take are rejected with a
+  // RejectedChangesError once the rest is stored.
+  send(changes: Change[]): Promise<void>;
+  // Sync right away instead of waiting, for remotes that poll
+  requestSync?(): Promise<void>;
+  stop(): void;
+}
+
+// Changes a remote can't store however often they're sent, e.g. too large
+// for it. The scheduler keeps them aside and reports them in its status.
+export class RejectedChangesError extends Error {
+  readonly changes: Change[];
+
+  constructor(changes: Change[], message: string) {
+    super(message);
+    this.name = "RejectedChangesError";
+    this.changes = changes;
+  }
+}
+
+// JSON-safe form of a Change, blobs are hex and bigints strings
+export interface WireChange {
+  table: string;
+  pk: string;
+  cid: string;
+  val: WireValue;
+  col_version: number;
+  db_version: number;
+  site_id: string;
+  cl: number;
+  seq: number;
+}
+
+export type WireValue =
+  | null
+  | number
+  | string
+  | { bytes: string }
+  | { bigint: string };
+
+export function encodeChange(change: Change): WireChange {
+  return {
+    table: change.table,
+    pk: siteIdHex(change.pk),
+    cid: change.cid,
+    val: encodeValue(change.val),
+    col_version: Number(change.col_version),
+    db_version: Number(change.db_version),
+    site_id: siteIdHex(change.site_id),
+    cl: Number(change.cl),
+    seq: Number(change.seq),
+  };
+}
+
+export function decodeChange(change: WireChange): Change {
+  return {
+    table: change.table,
+    pk: hexToBytes(change.pk),
+    cid: change.cid,
+    val: decodeValue(change.val),
+    col_version: change.col_version,
+    db_version: change.db_version,
+    site_id: hexToBytes(change.site_id),
+    cl: change.cl,
+    seq: change.seq,
+  };
+}
+
+function encodeValue(val: any): WireValue {
+  if (val instanceof Uint8Array) return { bytes: siteIdHex(val) };
+  if (typeof val === "bigint") return { bigint: val.toString() };
+  return val ?? null;
+}
+
+function decodeValue(val: WireValue): any {
+  if (val !== null && typeof val === "object") {
+    if ("bytes" in val) return hexToBytes(val.bytes);
+    return BigInt(val.bigint);
+  }
+  return val;
+}
+
+export function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,139 @@
+// Bounded LRU of prepared statements keyed by SQL text
+import { DB } from "@vlcn.io/crsqlite-wasm";
+
+// Transaction handle passed to db.tx callbacks, the DB itself also is one
+export type TX = Parameters<Parameters<DB["tx"]>[0]>[0];
+type Stmt = Awaited<ReturnType<DB["prepare"]>>;
+
+interface CacheEntry {
+  stmt: Promise<Stmt>;
+  // Callers currently using the statement, evicted entries are finalized
+  // only once this drops to zero
+  users: number;
+  evicted: boolean;
+}
+
+export interface StatementCacheStats {
+  hits: number;
+  misses: number;
+  size: number;
+}
+
+export class StatementCache {
+  private _db: DB | (() => DB);
+  private capacity: number;
+  // Map iterates in insertion order, re-inserting on use keeps LRU at the front
+  private entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(db: DB | (() => DB), capacity = 64) {
+    this._db = db;
+    this.capacity = capacity;
+  }
+
+  get db() {
+    return typeof this._db === "function" ? this._db() : this._db;
+  }
+
+  // Runs fn with the prepared statement for sql. Inside db.tx pass the tx,
+  // preparing through the DB there would wait for the tx to finish.
+  async use<T>(
+    tx: TX,
+    sql: string,
+    fn: (stmt: Stmt) => Promise<T>
+  ): Promise<T> {
+    let entry = this.entries.get(sql);
+    if (entry) {
+      this.hits++;
+      this.entries.delete(sql);
+    } else {
+      this.misses++;
+      entry = { stmt: tx.prepare(sql), users: 0, evicted: false };
+    }
+    this.entries.set(sql, entry);
+    this.evict();
+
+    entry.users++;
+    try {
+      return await fn(await entry.stmt);
+    } catch (error) {
+      // Don't keep statements that failed to prepare
+      if (this.entries.get(sql) === entry) this.entries.delete(sql);
+      entry.evicted = true;
+      throw error;
+    } finally {
+      entry.users--;
+      if (entry.evicted && entry.users === 0) this.finalize(entry);
+    }
+  }
+
+  getStats(): StatementCacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size };
+  }
+
+  async finalizeAll(): Promise<void> {
+    const entries = [...this.entries.values()];
+    this.entries.clear();
+    for (const entry of entries) {
+      entry.evicted = true;
+      if (entry.users === 0) await this.finalize(entry);
+    }
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.capacity) {
+      const [sql, entry] = this.entries.entries().next().value!;
+      this.entries.delete(sql);
+      entry.evicted = true;
+      if (entry.users === 0) this.finalize(entry);
+    }
+  }
+
+  private async finalize(entry: CacheEntry): Promise<void> {
+    try {
+      // Through the DB so it queues behind any running transaction
+      const stmt = await entry.stmt;
+      await stmt.finalize(this.db);
+    } catch (error) {
+      // Failed prepares have nothing to finalize
+      console.warn("[StatementCache] Error finalizing statement:", error);
+    }
+  }
+}
+
+// prepare() only compiles the first statement, scripts have to go through
+// exec. Skips over string literals, quoted identifiers and comments.
+export function isSingleStatement(sql: string): boolean {
+  const text = sql.trim().replace(/;+$/, "");
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (c === "'" || c === '"' || c === "`" || c === "[") {
+      const close = c === "[" ? "]" : c;
+      const end = text.indexOf(close, i + 1);
+      if (end === -1) return false;
+      i = end;
+    } else if (c === "-" && text[i + 1] === "-") {
+      const end = text.indexOf("\n", i);
+      if (end === -1) return true;
+      i = end;
+    } else if (c === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      if (end === -1) return false;
+      i = end + 1;
+    } else if (c === ";") {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Result columns of a prepared statement, empty for ones like INSERT.
+// Stmt has no accessor for them, this is what its own get/all read.
+export function columnNames(stmt: Stmt): string[] {
+  const { api, base } = stmt as unknown as {
+    api: { column_names(stmt: number): string[] };
+    base: number;
+  };
+  return api.column_names(base);
+}
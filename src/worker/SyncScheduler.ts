@@ -0,0 +1,345 @@
+// Durable queue of outgoing changesets for the remotes, retried with
+// backoff and held back while the browser is offline
+import { DB } from "@vlcn.io/crsqlite-wasm";
+import type { Change } from "./CRSqliteWorkerBase";
+import type { PeerTracker } from "./PeerTracker";
+import {
+  decodeChange,
+  encodeChange,
+  RejectedChangesError,
+  RemoteSync,
+  WireChange,
+} from "./RemoteSync";
+
+// Plain table like sync_peers, never replicated. version is the highest
+// db_version in the changeset, the remote's "sent" moves there once stored.
+const CREATE_TABLE_SQL = `CREATE TABLE IF NOT EXISTS sync_queue (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  peer TEXT NOT NULL,
+  version INTEGER NOT NULL,
+  changes TEXT NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0
+)`;
+
+// Changes a remote rejected for good, kept so they aren't lost without a
+// trace. Other replicas won't have them.
+const CREATE_REJECTED_TABLE_SQL = `CREATE TABLE IF NOT EXISTS sync_rejected (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  peer TEXT NOT NULL,
+  changes TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  reason TEXT NOT NULL
+)`;
+
+export interface SyncSchedulerOptions {
+  // Changes per queued changeset, defaults to 1000
+  batchSize?: number;
+  // First retry delay and the cap it doubles up to, default 1s and 5min
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RemoteQueueStatus {
+  peer: string;
+  depth: number;
+  // Failed sends of the changeset at the head of the queue
+  attempts: number;
+  // Milliseconds since epoch, null while not waiting for a retry
+  nextRetryAt: number | null;
+  // Changes the remote refused for good, see RejectedChangesError
+  rejected: number;
+}
+
+export interface SyncQueueStatus {
+  online: boolean;
+  // Changesets waiting over all remotes
+  depth: number;
+  // Earliest scheduled retry over all remotes
+  nextRetryAt: number | null;
+  // Changes refused for good over all remotes
+  rejected: number;
+  remotes: RemoteQueueStatus[];
+}
+
+interface RemoteState {
+  remote: RemoteSync;
+  draining: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+  nextRetryAt: number | null;
+}
+
+export class SyncScheduler {
+  private _db: DB | (() => DB);
+  private peers: PeerTracker;
+  private getChangesSince: (dbVersion: number) => Promise<Change[]>;
+  private batchSize: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private remotes = new Map<string, RemoteState>();
+  private started = false;
+  private online = true;
+  // Enqueues run one after the other so changesets don't overlap
+  private queueing: Promise<void> = Promise.resolve();
+
+  constructor(
+    db: DB | (() => DB),
+    peers: PeerTracker,
+    getChangesSince: (dbVersion: number) => Promise<Change[]>,
+    { batchSize = 1000, baseDelayMs = 1000, maxDelayMs = 300000 }: SyncSchedulerOptions = {}
+  ) {
+    this._db = db;
+    this.peers = peers;
+    this.getChangesSince = getChangesSince;
+    this.batchSize = batchSize;
+    this.baseDelayMs = baseDelayMs;
+    this.maxDelayMs = maxDelayMs;
+  }
+
+  get db() {
+    return typeof this._db === "function" ? this._db() : this._db;
+  }
+
+  async initialize(): Promise<void> {
+    await this.db.exec(CREATE_TABLE_SQL);
+    await this.db.exec(CREATE_REJECTED_TABLE_SQL);
+  }
+
+  addRemote(remote: RemoteSync): void {
+    this.remotes.set(remote.peer, {
+      remote,
+      draining: false,
+      timer: null,
+      nextRetryAt: null,
+    });
+    if (this.started) this.enqueue();
+  }
+
+  // Sends whatever was left in the queue, and anything written while no
+  // remote was running
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+
+    this.online = globalThis.navigator?.onLine ?? true;
+    globalThis.addEventListener?.("online", this.handleOnline);
+    globalThis.addEventListener?.("offline", this.handleOffline);
+
+    this.enqueue();
+  }
+
+  stop(): void {
+    this.started = false;
+    globalThis.removeEventListener?.("online", this.handleOnline);
+    globalThis.removeEventListener?.("offline", this.handleOffline);
+    for (const state of this.remotes.values()) this.clearRetry(state);
+  }
+
+  // Queues the changes each remote doesn't have yet, then sends them
+  enqueue(): void {
+    this.queueing = this.queueing
+      .then(async () => {
+        for (const state of this.remotes.values()) {
+          await this.enqueueFor(state.remote.peer);
+        }
+      })
+      .catch((error) =>
+        console.error("[SyncScheduler] Error queueing changes:", error)
+      )
+      .then(() => {
+        for (const state of this.remotes.values()) this.drain(state);
+      });
+  }
+
+  // Skips the backoff, for remotes that just reconnected
+  flush(): void {
+    for (const state of this.remotes.values()) {
+      this.clearRetry(state);
+      this.drain(state);
+    }
+  }
+
+  async getStatus(): Promise<SyncQueueStatus> {
+    const rows = await this.db.execO<{
+      peer: string;
+      depth: number;
+      attempts: number;
+    }>(
+      `SELECT peer, count(*) AS depth,
+        (SELECT attempts FROM sync_queue q WHERE q.peer = sync_queue.peer ORDER BY id LIMIT 1) AS attempts
+       FROM sync_queue GROUP BY peer`
+    );
+    const rejected = await this.db.execO<{ peer: string; count: number }>(
+      "SELECT peer, sum(count) AS count FROM sync_rejected GROUP BY peer"
+    );
+
+    const remotes: RemoteQueueStatus[] = [...this.remotes.values()].map(
+      (state) => {
+        const row = rows?.find((r) => r.peer === state.remote.peer);
+        return {
+          peer: state.remote.peer,
+          depth: row?.depth ?? 0,
+          attempts: row?.attempts ?? 0,
+          nextRetryAt: state.nextRetryAt,
+          rejected:
+            rejected?.find((r) => r.peer === state.remote.peer)?.count ?? 0,
+        };
+      }
+    );
+    const retries = remotes
+      .map((r) => r.nextRetryAt)
+      .filter((t): t is number => t !== null);
+
+    return {
+      online: this.online,
+      depth: remotes.reduce((sum, r) => sum + r.depth, 0),
+      nextRetryAt: retries.length > 0 ? Math.min(...retries) : null,
+      rejected: remotes.reduce((sum, r) => sum + r.rejected, 0),
+      remotes,
+    };
+  }
+
+  private async enqueueFor(peer: string): Promise<void> {
+    const queued = await this.db.execO<{ version: number | null }>(
+      "SELECT max(version) AS version FROM sync_queue WHERE peer = ?",
+      [peer]
+    );
+    const since = Math.max(
+      queued?.[0]?.version ?? 0,
+      await this.peers.get(peer, "sent")
+    );
+
+    const changes = (await this.getChangesSince(since)).sort(
+      (a, b) => a.db_version - b.db_version
+    );
+    if (changes.length === 0) return;
+
+    // Never split one db_version, the remote's "sent" covers whole versions
+    await this.db.tx(async (tx) => {
+      for (let start = 0; start < changes.length; ) {
+        let end = Math.min(start + this.batchSize, changes.length);
+        while (
+          end < changes.length &&
+          changes[end].db_version === changes[end - 1].db_version
+        ) {
+          end++;
+        }
+        const batch = changes.slice(start, end);
+        await tx.exec(
+          "INSERT INTO sync_queue (peer, version, changes) VALUES (?, ?, ?)",
+          [
+            peer,
+            batch[batch.length - 1].db_version,
+            JSON.stringify(batch.map(encodeChange)),
+          ]
+        );
+        start = end;
+      }
+    });
+    console.log(
+      `[SyncScheduler] Queued ${changes.length} changes for ${peer}`
+    );
+  }
+
+  // Sends queued changesets oldest first until the queue is empty or a
+  // send fails, which schedules the retry
+  private async drain(state: RemoteState): Promise<void> {
+    if (state.draining || state.timer || !this.started || !this.online) return;
+
+    state.draining = true;
+    try {
+      while (this.started && this.online) {
+        const rows = await this.db.execO<{
+          id: number;
+          version: number;
+          changes: string;
+          attempts: number;
+        }>(
+          "SELECT id, version, changes, attempts FROM sync_queue WHERE peer = ? ORDER BY id LIMIT 1",
+          [state.remote.peer]
+        );
+        const row = rows?.[0];
+        if (!row) return;
+
+        try {
+          const changes = (JSON.parse(row.changes) as WireChange[]).map(
+            decodeChange
+          );
+          await state.remote.send(changes);
+        } catch (error) {
+          if (error instanceof RejectedChangesError) {
+            // The rest is stored, retrying would only fail again
+            console.error(
+              `[SyncScheduler] ${state.remote.peer} rejected ${error.changes.length} changes:`,
+              error.message
+            );
+            await this.db.exec(
+              "INSERT INTO sync_rejected (peer, changes, count, reason) VALUES (?, ?, ?, ?)",
+              [
+                state.remote.peer,
+                JSON.stringify(error.changes.map(encodeChange)),
+                error.changes.length,
+                error.message,
+              ]
+            );
+            await this.db.exec("DELETE FROM sync_queue WHERE id = ?", [row.id]);
+            await this.peers.advance(state.remote.peer, "sent", row.version);
+            continue;
+          }
+
+          const attempts = row.attempts + 1;
+          await this.db.exec(
+            "UPDATE sync_queue SET attempts = ? WHERE id = ?",
+            [attempts, row.id]
+          );
+          this.scheduleRetry(state, attempts);
+          console.warn(
+            `[SyncScheduler] Send to ${state.remote.peer} failed (attempt ${attempts}):`,
+            error
+          );
+          return;
+        }
+
+        await this.db.exec("DELETE FROM sync_queue WHERE id = ?", [row.id]);
+        await this.peers.advance(state.remote.peer, "sent", row.version);
+      }
+    } catch (error) {
+      console.error("[SyncScheduler] Error draining queue:", error);
+    } finally {
+      state.draining = false;
+    }
+  }
+
+  // Exponential backoff with jitter, so devices don't retry in lockstep
+  private scheduleRetry(state: RemoteState, attempts: number): void {
+    const cap = Math.min(
+      this.maxDelayMs,
+      this.baseDelayMs * 2 ** Math.min(attempts - 1, 30)
+    );
+    const delay = Math.round(cap / 2 + (Math.random() * cap) / 2);
+
+    state.nextRetryAt = Date.now() + delay;
+    state.timer = setTimeout(() => {
+      state.timer = null;
+      state.nextRetryAt = null;
+      this.drain(state);
+    }, delay);
+  }
+
+  private clearRetry(state: RemoteState): void {
+    if (state.timer) clearTimeout(state.timer);
+    state.timer = null;
+    state.nextRetryAt = null;
+  }
+
+  private handleOnline = () => {
+    console.log("[SyncScheduler] Back online, resuming");
+    this.online = true;
+    this.flush();
+  };
+
+  private handleOffline = () => {
+    console.log("[SyncScheduler] Offline, pausing");
+    this.online = false;
+    for (const state of this.remotes.values()) this.clearRetry(state);
+  };
+}
@@ -0,0 +1,165 @@
+// How db-sync messages travel between the worker and the tabs
+import { BroadcastChannel as PackageBroadcastChannel } from "broadcast-channel";
+import type { BroadcastMessage } from "./CRSqliteWorkerBase";
+
+export const DEFAULT_CHANNEL_NAME = "db-sync";
+
+// Keeps databases on the same origin from seeing each other's changes
+export function syncChannelName(dbName: string): string {
+  return `${DEFAULT_CHANNEL_NAME}:${dbName}`;
+}
+
+export interface SyncTransport {
+  post(message: BroadcastMessage): void;
+  // Returns the unsubscribe function
+  subscribe(handler: (message: BroadcastMessage) => void): () => void;
+  close(): void;
+}
+
+// Native BroadcastChannel, reaches every context of the origin except the
+// poster
+export class BroadcastChannelTransport implements SyncTransport {
+  private channel: BroadcastChannel;
+
+  constructor(name = DEFAULT_CHANNEL_NAME) {
+    this.channel = new BroadcastChannel(name);
+  }
+
+  post(message: BroadcastMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  subscribe(handler: (message: BroadcastMessage) => void): () => void {
+    const listener = (e: MessageEvent) => handler(e.data);
+    this.channel.addEventListener("message", listener);
+    return () => this.channel.removeEventListener("message", listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+// Changeset as base64, survives the JSON the fallbacks serialize to
+type PackageMessage = Omit<BroadcastMessage, "changeset"> & {
+  changeset?: string;
+};
+
+// broadcast-channel package, falls back to IndexedDB or localStorage where
+// the native one is missing. Those serialize to JSON, so the changeset goes
+// as base64 with every method.
+export class BroadcastChannelPackageTransport implements SyncTransport {
+  private channel: PackageBroadcastChannel<PackageMessage>;
+
+  constructor(name = DEFAULT_CHANNEL_NAME) {
+    this.channel = new PackageBroadcastChannel<PackageMessage>(name);
+  }
+
+  post(message: BroadcastMessage): void {
+    const { changeset, ...rest } = message;
+    const packed: PackageMessage = changeset
+      ? { ...rest, changeset: toBase64(changeset) }
+      : rest;
+    this.channel.postMessage(packed).catch((error) =>
+      console.error("[BroadcastChannelPackageTransport] Failed to post:", error)
+    );
+  }
+
+  subscribe(handler: (message: BroadcastMessage) => void): () => void {
+    const listener = ({ changeset, ...rest }: PackageMessage) =>
+      handler(changeset ? { ...rest, changeset: fromBase64(changeset) } : rest);
+    this.channel.addEventListener("message", listener);
+    return () => this.channel.removeEventListener("message", listener);
+  }
+
+  close(): void {
+    this.channel.close();
+  }
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  // Chunked, spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): ArrayBuffer {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+// One end of a MessageChannel, the other end gets everything posted here
+export class MessagePortTransport implements SyncTransport {
+  private port: MessagePort;
+
+  constructor(port: MessagePort) {
+    this.port = port;
+  }
+
+  post(message: BroadcastMessage): void {
+    this.port.postMessage(message);
+  }
+
+  subscribe(handler: (message: BroadcastMessage) => void): () => void {
+    const listener = (e: MessageEvent) => handler(e.data);
+    this.port.addEventListener("message", listener);
+    this.port.start();
+    return () => this.port.removeEventListener("message", listener);
+  }
+
+  close(): void {
+    this.port.close();
+  }
+}
+
+// Same-realm stand-in for a BroadcastChannel, transports created with the
+// same name see each other's messages. Delivery is async and the message
+// is cloned, like the real thing.
+export class InMemoryTransport implements SyncTransport {
+  private static channels = new Map<string, Set<InMemoryTransport>>();
+
+  private name: string;
+  private handlers = new Set<(message: BroadcastMessage) => void>();
+
+  constructor(name = DEFAULT_CHANNEL_NAME) {
+    this.name = name;
+    let members = InMemoryTransport.channels.get(name);
+    if (!members) {
+      members = new Set();
+      InMemoryTransport.channels.set(name, members);
+    }
+    members.add(this);
+  }
+
+  post(message: BroadcastMessage): void {
+    const members = InMemoryTransport.channels.get(this.name);
+    if (!members) return;
+
+    for (const member of members) {
+      if (member === this) continue;
+      const copy = structuredClone(message);
+      queueMicrotask(() => {
+        for (const handler of member.handlers) handler(copy);
+      });
+    }
+  }
+
+  subscribe(handler: (message: BroadcastMessage) => void): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+
+  close(): void {
+    this.handlers.clear();
+    const members = InMemoryTransport.channels.get(this.name);
+    if (!members) return;
+    members.delete(this);
+    if (members.size === 0) InMemoryTransport.channels.delete(this.name);
+  }
+}
@@ -0,0 +1,196 @@
+// Pushes the worker's changes to a sync server and pulls everyone else's
+import type { Change } from "./CRSqliteWorkerBase";
+import {
+  decodeChange,
+  encodeChange,
+  RemoteSync,
+  RemoteSyncHost,
+  WireChange,
+} from "./RemoteSync";
+
+// Messages of the reference server in server/sync-server.js
+export type WebSocketSyncMessage =
+  // client -> server, changes after cursor are sent back, then live ones
+  | { type: "hello"; site: string; cursor: number }
+  // client -> server, acked once stored
+  | { type: "push"; id: number; changes: WireChange[] }
+  // server -> client, version is the highest db_version of the push
+  | { type: "ack"; id: number; version: number }
+  // server -> client, cursor is the server position after these changes
+  | { type: "changes"; changes: WireChange[]; cursor: number }
+  | { type: "error"; error: string };
+
+export interface WebSocketSyncOptions {
+  url: string;
+  // Delay before reconnecting after the socket closed, defaults to 2s
+  reconnectMs?: number;
+  // How long a push may wait for its ack, defaults to 10s
+  ackTimeoutMs?: number;
+}
+
+interface PendingPush {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export class WebSocketSync implements RemoteSync {
+  private url: string;
+  private reconnectMs: number;
+  private ackTimeoutMs: number;
+  private host: RemoteSyncHost | null = null;
+  private socket: WebSocket | null = null;
+  // Set once the server got our hello
+  private ready = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingPushes = new Map<number, PendingPush>();
+  private pushCounter = 0;
+  // Remote changes are applied one batch after the other
+  private applying: Promise<void> = Promise.resolve();
+
+  constructor({
+    url,
+    reconnectMs = 2000,
+    ackTimeoutMs = 10000,
+  }: WebSocketSyncOptions) {
+    this.url = url;
+    this.reconnectMs = reconnectMs;
+    this.ackTimeoutMs = ackTimeoutMs;
+  }
+
+  // Progress is kept per server
+  get peer(): string {
+    return `ws:${this.url}`;
+  }
+
+  async start(host: RemoteSyncHost): Promise<void> {
+    this.host = host;
+    this.connect();
+  }
+
+  send(changes: Change[]): Promise<void> {
+    if (!this.socket || !this.ready) {
+      return Promise.reject(new Error(`Not connected to ${this.url}`));
+    }
+
+    const id = ++this.pushCounter;
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingPushes.delete(id);
+        reject(new Error(`No ack from ${this.url}`));
+      }, this.ackTimeoutMs);
+      this.pendingPushes.set(id, { resolve, reject, timer });
+      this.sendMessage({
+        type: "push",
+        id,
+        changes: changes.map(encodeChange),
+      });
+    });
+  }
+
+  stop(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.host = null;
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+    this.ready = false;
+    this.failPendingPushes("WebSocketSync stopped");
+  }
+
+  private connect(): void {
+    if (!this.host) return;
+
+    console.log(`[WebSocketSync] Connecting to ${this.url}`);
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.addEventListener("open", async () => {
+      if (this.socket !== socket || !this.host) return;
+      try {
+        this.sendMessage({
+          type: "hello",
+          site: this.host.siteIdHex,
+          cursor: await this.host.peers.get(this.peer, "received"),
+        });
+        this.ready = true;
+        // Queued changesets shouldn't wait for their backoff
+        this.host.flush();
+      } catch (error) {
+        console.error("[WebSocketSync] Error opening session:", error);
+      }
+    });
+
+    socket.addEventListener("message", (e) => {
+      if (this.socket !== socket) return;
+      this.handleMessage(JSON.parse(e.data));
+    });
+
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) return;
+      console.warn(`[WebSocketSync] Disconnected from ${this.url}`);
+      this.socket = null;
+      this.ready = false;
+      this.failPendingPushes(`Disconnected from ${this.url}`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectMs);
+    });
+
+    socket.addEventListener("error", (e) => {
+      console.error("[WebSocketSync] Socket error:", e);
+    });
+  }
+
+  private handleMessage(message: WebSocketSyncMessage): void {
+    const host = this.host;
+    if (!host) return;
+
+    switch (message.type) {
+      case "changes":
+        this.applying = this.applying
+          .then(async () => {
+            if (message.changes.length > 0) {
+              await host.applyRemoteChanges(message.changes.map(decodeChange));
+            }
+            await host.peers.advance(this.peer, "received", message.cursor);
+          })
+          .catch((error) =>
+            console.error("[WebSocketSync] Error applying changes:", error)
+          );
+        break;
+
+      case "ack": {
+        // The scheduler records the sent version
+        const pending = this.pendingPushes.get(message.id);
+        if (!pending) break;
+        this.pendingPushes.delete(message.id);
+        clearTimeout(pending.timer);
+        pending.resolve();
+        break;
+      }
+
+      case "error":
+        console.error("[WebSocketSync] Server error:", message.error);
+        break;
+    }
+  }
+
+  private failPendingPushes(reason: string): void {
+    for (const pending of this.pendingPushes.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(new Error(reason));
+    }
+    this.pendingPushes.clear();
+  }
+
+  private sendMessage(message: WebSocketSyncMessage): void {
+    this.socket?.send(JSON.stringify(message));
+  }
+}
@@ -0,0 +1,268 @@
+// Compact binary form of a list of changes, used between the worker and
+// the tabs and for exported files.
+//
+// Layout, all integers are unsigned LEB128 varints:
+//   "CRCS" format-version
+//   table count, tables as strings
+//   column count, cids as strings
+//   site count, site_ids as byte strings
+//   change count, per change:
+//     table index, pk bytes, cid index, value, col_version, db_version,
+//     site index, cl, seq
+// Strings and byte strings are a length followed by the (UTF-8) bytes.
+// A value is a tag byte followed by its payload, see ValueTag.
+import type { Change } from "./CRSqliteWorkerBase";
+
+const MAGIC = "CRCS";
+const FORMAT_VERSION = 1;
+
+enum ValueTag {
+  Null = 0,
+  // zigzag varint
+  Integer = 1,
+  // 8 byte little endian
+  Float = 2,
+  Text = 3,
+  Blob = 4,
+  // Decimal string, for bigints and integers whose zigzag form is beyond
+  // 2^53. Those decode as bigint.
+  BigInt = 5,
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeChangeset(changes: Change[]): ArrayBuffer {
+  const tables = new Dictionary<string>((t) => t);
+  const columns = new Dictionary<string>((c) => c);
+  const sites = new Dictionary<Uint8Array>((s) => s.join(","));
+  for (const change of changes) {
+    tables.add(change.table);
+    columns.add(change.cid);
+    sites.add(change.site_id);
+  }
+
+  const w = new Writer();
+  w.bytes(encoder.encode(MAGIC));
+  w.varint(FORMAT_VERSION);
+  w.varint(tables.values.length);
+  for (const table of tables.values) w.string(table);
+  w.varint(columns.values.length);
+  for (const cid of columns.values) w.string(cid);
+  w.varint(sites.values.length);
+  for (const site of sites.values) w.byteString(site);
+
+  w.varint(changes.length);
+  for (const change of changes) {
+    w.varint(tables.indexOf(change.table));
+    w.byteString(change.pk);
+    w.varint(columns.indexOf(change.cid));
+    w.value(change.val);
+    w.varint(Number(change.col_version));
+    w.varint(Number(change.db_version));
+    w.varint(sites.indexOf(change.site_id));
+    w.varint(Number(change.cl));
+    w.varint(Number(change.seq));
+  }
+  return w.finish();
+}
+
+export function decodeChangeset(buffer: ArrayBuffer): Change[] {
+  const r = new Reader(new Uint8Array(buffer));
+  if (decoder.decode(r.bytes(MAGIC.length)) !== MAGIC) {
+    throw new Error("Not a changeset");
+  }
+  const version = r.varint();
+  if (version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported changeset format ${version}`);
+  }
+
+  const tables = r.list(() => r.string());
+  const columns = r.list(() => r.string());
+  const sites = r.list(() => r.byteString());
+
+  return r.list(() => ({
+    table: tables[r.varint()],
+    pk: r.byteString(),
+    cid: columns[r.varint()],
+    val: r.value(),
+    col_version: r.varint(),
+    db_version: r.varint(),
+    site_id: sites[r.varint()],
+    cl: r.varint(),
+    seq: r.varint(),
+  }));
+}
+
+// Distinct values in first-seen order
+class Dictionary<T> {
+  values: T[] = [];
+  private index = new Map<string, number>();
+  private key: (value: T) => string;
+
+  constructor(key: (value: T) => string) {
+    this.key = key;
+  }
+
+  add(value: T): void {
+    const key = this.key(value);
+    if (this.index.has(key)) return;
+    this.index.set(key, this.values.length);
+    this.values.push(value);
+  }
+
+  indexOf(value: T): number {
+    return this.index.get(this.key(value))!;
+  }
+}
+
+class Writer {
+  private buf = new Uint8Array(1024);
+  private pos = 0;
+
+  private reserve(n: number): void {
+    if (this.pos + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.pos + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.pos));
+    this.buf = next;
+  }
+
+  byte(b: number): void {
+    this.reserve(1);
+    this.buf[this.pos++] = b;
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buf.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  // Arithmetic instead of bit ops, those truncate to 32 bits
+  varint(n: number): void {
+    if (!Number.isSafeInteger(n) || n < 0) {
+      throw new Error(`Can't encode ${n} as varint`);
+    }
+    while (n >= 0x80) {
+      this.byte((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.byte(n);
+  }
+
+  string(s: string): void {
+    this.byteString(encoder.encode(s));
+  }
+
+  byteString(bytes: Uint8Array): void {
+    this.varint(bytes.length);
+    this.bytes(bytes);
+  }
+
+  value(val: any): void {
+    if (val === null || val === undefined) {
+      this.byte(ValueTag.Null);
+    } else if (typeof val === "bigint") {
+      this.byte(ValueTag.BigInt);
+      this.string(val.toString());
+    } else if (typeof val === "number" && Number.isSafeInteger(val)) {
+      const zigzag = val < 0 ? -2 * val - 1 : 2 * val;
+      if (Number.isSafeInteger(zigzag)) {
+        this.byte(ValueTag.Integer);
+        this.varint(zigzag);
+      } else {
+        this.byte(ValueTag.BigInt);
+        this.string(val.toString());
+      }
+    } else if (typeof val === "number") {
+      this.byte(ValueTag.Float);
+      this.reserve(8);
+      new DataView(this.buf.buffer).setFloat64(this.pos, val, true);
+      this.pos += 8;
+    } else if (val instanceof Uint8Array) {
+      this.byte(ValueTag.Blob);
+      this.byteString(val);
+    } else {
+      this.byte(ValueTag.Text);
+      this.string(String(val));
+    }
+  }
+
+  // A fresh buffer of the exact size, so it can be transferred
+  finish(): ArrayBuffer {
+    return this.buf.slice(0, this.pos).buffer;
+  }
+}
+
+class Reader {
+  private buf: Uint8Array;
+  private pos = 0;
+
+  constructor(buf: Uint8Array) {
+    this.buf = buf;
+  }
+
+  byte(): number {
+    if (this.pos >= this.buf.length) throw new Error("Truncated changeset");
+    return this.buf[this.pos++];
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.pos + n > this.buf.length) throw new Error("Truncated changeset");
+    const bytes = this.buf.slice(this.pos, this.pos + n);
+    this.pos += n;
+    return bytes;
+  }
+
+  varint(): number {
+    let n = 0;
+    let scale = 1;
+    for (;;) {
+      const b = this.byte();
+      n += (b & 0x7f) * scale;
+      if (b < 0x80) return n;
+      scale *= 0x80;
+    }
+  }
+
+  string(): string {
+    return decoder.decode(this.byteString());
+  }
+
+  byteString(): Uint8Array {
+    return this.bytes(this.varint());
+  }
+
+  list<T>(item: () => T): T[] {
+    const count = this.varint();
+    const items: T[] = [];
+    for (let i = 0; i < count; i++) items.push(item());
+    return items;
+  }
+
+  value(): any {
+    const tag = this.byte();
+    switch (tag) {
+      case ValueTag.Null:
+        return null;
+      case ValueTag.Integer: {
+        const n = this.varint();
+        return n % 2 === 1 ? -(n + 1) / 2 : n / 2;
+      }
+      case ValueTag.Float: {
+        const bytes = this.bytes(8);
+        return new DataView(bytes.buffer).getFloat64(0, true);
+      }
+      case ValueTag.Text:
+        return this.string();
+      case ValueTag.Blob:
+        return this.byteString();
+      case ValueTag.BigInt:
+        return BigInt(this.string());
+      default:
+        throw new Error(`Unknown value tag ${tag}`);
+    }
+  }
+}
@@ -0,0 +1,213 @@
+// Changeset files, for moving changes between browsers or machines with
+// no network in between.
+//
+// Layout: "CRSF", header length (uint32 LE), header as UTF-8 JSON, then the
+// changeset, compressed as the header says.
+import { Change, siteIdHex, VersionVector } from "./CRSqliteWorkerBase";
+import {
+  ChangesetCompression,
+  CompressionStats,
+  packChangeset,
+  unpackChangeset,
+} from "./compression";
+
+const MAGIC = "CRSF";
+const FORMAT_VERSION = 1;
+
+export const CHANGESET_FILE_TYPE = "application/x-crsqlite-changeset";
+export const CHANGESET_FILE_EXTENSION = ".crsf";
+
+// Versions in the header are the exporting worker's db_versions, a merge
+// doesn't keep the ones the changes had at their origin
+export interface ChangesetFileSite {
+  // Uppercase hex like siteIdHex
+  siteId: string;
+  // Lowest and highest db_version of this site in the file
+  fromVersion: number;
+  toVersion: number;
+}
+
+export interface ChangesetFileHeader {
+  formatVersion: number;
+  // Only databases with the same schema can import the file
+  schemaHash: string;
+  // The exporting worker's site
+  siteId: string;
+  createdAt: number;
+  changes: number;
+  sites: ChangesetFileSite[];
+  // The version vector the export started after, unset for everything
+  since?: VersionVector;
+  // What the exporting worker had when the file was made. Only that worker
+  // can continue from it, see exportChanges.
+  until: VersionVector;
+  compression?: ChangesetCompression;
+}
+
+export interface ChangesetFileOptions {
+  schemaHash: string;
+  siteId: string;
+  since?: VersionVector;
+  compression?: ChangesetCompression | null;
+  compressionThreshold: number;
+  stats?: CompressionStats;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export async function writeChangesetFile(
+  changes: Change[],
+  {
+    schemaHash,
+    siteId,
+    since,
+    compression,
+    compressionThreshold,
+    stats,
+  }: ChangesetFileOptions
+): Promise<{ file: ArrayBuffer; header: ChangesetFileHeader }> {
+  const payload = await packChangeset(
+    changes,
+    compression,
+    compressionThreshold,
+    stats
+  );
+  const sites = siteRanges(changes);
+  const header: ChangesetFileHeader = {
+    formatVersion: FORMAT_VERSION,
+    schemaHash,
+    siteId,
+    createdAt: Date.now(),
+    changes: changes.length,
+    sites,
+    since,
+    until: { ...since },
+    compression: payload.compression,
+  };
+  for (const site of sites) {
+    header.until[site.siteId] = Math.max(
+      header.until[site.siteId] ?? 0,
+      site.toVersion
+    );
+  }
+
+  const headerBytes = encoder.encode(JSON.stringify(header));
+  const file = new Uint8Array(
+    MAGIC.length + 4 + headerBytes.length + payload.changeset.byteLength
+  );
+  file.set(encoder.encode(MAGIC), 0);
+  new DataView(file.buffer).setUint32(MAGIC.length, headerBytes.length, true);
+  file.set(headerBytes, MAGIC.length + 4);
+  file.set(
+    new Uint8Array(payload.changeset),
+    MAGIC.length + 4 + headerBytes.length
+  );
+  return { file: file.buffer, header };
+}
+
+// Only the header, to show what a file holds before importing it
+export function readChangesetFileHeader(
+  file: ArrayBuffer
+): ChangesetFileHeader {
+  return splitFile(file).header;
+}
+
+// Throws if the file is damaged, made for another schema, or its changes
+// don't match the header
+export async function readChangesetFile(
+  file: ArrayBuffer,
+  schemaHash: string
+): Promise<{ header: ChangesetFileHeader; changes: Change[] }> {
+  const { header, changeset } = splitFile(file);
+  if (header.schemaHash !== schemaHash) {
+    throw new Error(
+      `Changeset file is for schema ${header.schemaHash}, database has ${schemaHash}`
+    );
+  }
+
+  const changes = await unpackChangeset({
+    changeset,
+    compression: header.compression,
+  });
+  if (changes.length !== header.changes) {
+    throw new Error(
+      `Changeset file holds ${changes.length} changes, header says ${header.changes}`
+    );
+  }
+
+  for (const site of header.sites) {
+    if (!(site.toVersion <= (header.until?.[site.siteId] ?? -1))) {
+      throw new Error(
+        `Changeset file header doesn't cover site ${site.siteId} up to version ${site.toVersion}`
+      );
+    }
+  }
+  const ranges = new Map(header.sites.map((s) => [s.siteId, s]));
+  for (const change of changes) {
+    const site = ranges.get(siteIdHex(change.site_id));
+    if (
+      !site ||
+      change.db_version < site.fromVersion ||
+      change.db_version > site.toVersion
+    ) {
+      throw new Error(
+        `Change of site ${siteIdHex(change.site_id)} at version ${change.db_version} is outside the header's ranges`
+      );
+    }
+  }
+
+  return { header, changes };
+}
+
+function splitFile(file: ArrayBuffer): {
+  header: ChangesetFileHeader;
+  changeset: ArrayBuffer;
+} {
+  const bytes = new Uint8Array(file);
+  if (
+    bytes.length < MAGIC.length + 4 ||
+    decoder.decode(bytes.subarray(0, MAGIC.length)) !== MAGIC
+  ) {
+    throw new Error("Not a changeset file");
+  }
+
+  const headerLength = new DataView(file).getUint32(MAGIC.length, true);
+  const headerEnd = MAGIC.length + 4 + headerLength;
+  if (headerEnd > bytes.length) throw new Error("Truncated changeset file");
+
+  let header: ChangesetFileHeader;
+  try {
+    header = JSON.parse(
+      decoder.decode(bytes.subarray(MAGIC.length + 4, headerEnd))
+    );
+  } catch {
+    throw new Error("Damaged changeset file header");
+  }
+  if (header.formatVersion !== FORMAT_VERSION) {
+    throw new Error(
+      `Unsupported changeset file format ${header.formatVersion}`
+    );
+  }
+
+  return { header, changeset: file.slice(headerEnd) };
+}
+
+function siteRanges(changes: Change[]): ChangesetFileSite[] {
+  const sites = new Map<string, ChangesetFileSite>();
+  for (const change of changes) {
+    const siteId = siteIdHex(change.site_id);
+    const site = sites.get(siteId);
+    if (!site) {
+      sites.set(siteId, {
+        siteId,
+        fromVersion: change.db_version,
+        toVersion: change.db_version,
+      });
+    } else {
+      site.fromVersion = Math.min(site.fromVersion, change.db_version);
+      site.toVersion = Math.max(site.toVersion, change.db_version);
+    }
+  }
+  return [...sites.values()];
+}
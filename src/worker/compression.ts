@@ -0,0 +1,110 @@
+// Optional compression of changeset payloads, initial syncs and backups
+// can be megabytes of mostly repetitive data. Gzip through CompressionStream
+// where it exists, the bundled LZ compressor everywhere.
+import type { Change } from "./CRSqliteWorkerBase";
+import { decodeChangeset, encodeChangeset } from "./changeset";
+import { lzCompress, lzDecompress } from "./lz";
+
+export type ChangesetCompression = "gzip" | "lz";
+
+// Every build can read it, for payloads whose receivers aren't known
+export const FALLBACK_COMPRESSION: ChangesetCompression = "lz";
+
+// Smaller payloads aren't worth the time
+export const DEFAULT_COMPRESSION_THRESHOLD = 16 * 1024;
+
+export interface ChangesetPayload {
+  changeset: ArrayBuffer;
+  // Unset when the changeset went out as encoded
+  compression?: ChangesetCompression;
+}
+
+export interface CompressionStats {
+  // Formats in use, best first. Empty where compression is turned off.
+  formats: ChangesetCompression[];
+  threshold: number;
+  // Payloads encoded, and how many of them were compressed
+  payloads: number;
+  compressed: number;
+  // Encoded size of all payloads, and what was actually sent
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+// What this context can compress and decompress, best first
+export function supportedCompressions(): ChangesetCompression[] {
+  return typeof CompressionStream !== "undefined" &&
+    typeof DecompressionStream !== "undefined"
+    ? ["gzip", FALLBACK_COMPRESSION]
+    : [FALLBACK_COMPRESSION];
+}
+
+// Our best format the other side can read too
+export function pickCompression(
+  ours: ChangesetCompression[],
+  theirs: ChangesetCompression[] | undefined
+): ChangesetCompression | null {
+  return ours.find((format) => theirs?.includes(format)) ?? null;
+}
+
+// Encodes the changes and compresses them if a format is given and they
+// come out above the threshold, stats are updated when passed
+export async function packChangeset(
+  changes: Change[],
+  format: ChangesetCompression | null | undefined,
+  threshold: number,
+  stats?: CompressionStats
+): Promise<ChangesetPayload> {
+  const encoded = encodeChangeset(changes);
+  let payload: ChangesetPayload = { changeset: encoded };
+  if (format && encoded.byteLength >= threshold) {
+    const compressed = await compress(encoded, format);
+    // Already dense data can grow, send it as it is then
+    if (compressed.byteLength < encoded.byteLength) {
+      payload = { changeset: compressed, compression: format };
+    }
+  }
+
+  if (stats) {
+    stats.payloads++;
+    if (payload.compression) stats.compressed++;
+    stats.bytesBefore += encoded.byteLength;
+    stats.bytesAfter += payload.changeset.byteLength;
+  }
+  return payload;
+}
+
+export async function unpackChangeset(
+  payload: ChangesetPayload
+): Promise<Change[]> {
+  if (!payload.compression) return decodeChangeset(payload.changeset);
+  return decodeChangeset(
+    await decompress(payload.changeset, payload.compression)
+  );
+}
+
+async function compress(
+  buffer: ArrayBuffer,
+  format: ChangesetCompression
+): Promise<ArrayBuffer> {
+  if (format === "lz") return lzCompress(new Uint8Array(buffer)).buffer as ArrayBuffer;
+  return pipe(buffer, new CompressionStream(format));
+}
+
+async function decompress(
+  buffer: ArrayBuffer,
+  format: ChangesetCompression
+): Promise<ArrayBuffer> {
+  if (format === "lz") return lzDecompress(new Uint8Array(buffer)).buffer as ArrayBuffer;
+  if (format !== "gzip") throw new Error(`Unknown compression ${format}`);
+  return pipe(buffer, new DecompressionStream(format));
+}
+
+function pipe(
+  buffer: ArrayBuffer,
+  transform: CompressionStream | DecompressionStream
+): Promise<ArrayBuffer> {
+  return new Response(
+    new Blob([buffer]).stream().pipeThrough(transform)
+  ).arrayBuffer();
+}
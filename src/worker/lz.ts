@@ -0,0 +1,149 @@
+// Small LZ77 compressor, the fallback where CompressionStream is missing.
+// Changesets repeat pks, site ids and values, plain back references get
+// a good part of what gzip gets.
+//
+// Layout, all integers are unsigned LEB128 varints:
+//   decompressed length
+//   sequences of: literal count, the literals, then unless the data ends
+//   there, match offset and match length minus MIN_MATCH
+
+const MIN_MATCH = 4;
+const HASH_BITS = 15;
+// Back references reach this far
+const MAX_OFFSET = 1 << 20;
+
+export function lzCompress(input: Uint8Array): Uint8Array {
+  const out = new Output(Math.max(64, input.length >> 1));
+  out.varint(input.length);
+
+  // Last position of each 4 byte sequence, by hash
+  const table = new Int32Array(1 << HASH_BITS).fill(-1);
+  let anchor = 0;
+  let pos = 0;
+  while (pos + MIN_MATCH <= input.length) {
+    const hash = hash4(input, pos);
+    const candidate = table[hash];
+    table[hash] = pos;
+    if (
+      candidate < 0 ||
+      pos - candidate > MAX_OFFSET ||
+      !same4(input, candidate, pos)
+    ) {
+      pos++;
+      continue;
+    }
+
+    let length = MIN_MATCH;
+    while (
+      pos + length < input.length &&
+      input[candidate + length] === input[pos + length]
+    ) {
+      length++;
+    }
+    out.varint(pos - anchor);
+    out.bytes(input.subarray(anchor, pos));
+    out.varint(pos - candidate);
+    out.varint(length - MIN_MATCH);
+    pos += length;
+    anchor = pos;
+  }
+
+  out.varint(input.length - anchor);
+  out.bytes(input.subarray(anchor));
+  return out.finish();
+}
+
+export function lzDecompress(input: Uint8Array): Uint8Array {
+  let pos = 0;
+  const varint = (): number => {
+    let n = 0;
+    let scale = 1;
+    for (;;) {
+      if (pos >= input.length) throw new Error("Truncated lz data");
+      const b = input[pos++];
+      n += (b & 0x7f) * scale;
+      if (b < 0x80) return n;
+      scale *= 0x80;
+    }
+  };
+
+  const out = new Uint8Array(varint());
+  let length = 0;
+  for (;;) {
+    const literals = varint();
+    if (pos + literals > input.length || length + literals > out.length) {
+      throw new Error("Corrupt lz data");
+    }
+    out.set(input.subarray(pos, pos + literals), length);
+    pos += literals;
+    length += literals;
+    if (length === out.length) return out;
+
+    const offset = varint();
+    const matchLength = varint() + MIN_MATCH;
+    if (offset === 0 || offset > length || length + matchLength > out.length) {
+      throw new Error("Corrupt lz data");
+    }
+    // Byte by byte, a match may overlap the bytes it produces
+    for (let i = 0; i < matchLength; i++) {
+      out[length + i] = out[length - offset + i];
+    }
+    length += matchLength;
+  }
+}
+
+function hash4(data: Uint8Array, pos: number): number {
+  const word =
+    data[pos] |
+    (data[pos + 1] << 8) |
+    (data[pos + 2] << 16) |
+    (data[pos + 3] << 24);
+  return Math.imul(word, 2654435761) >>> (32 - HASH_BITS);
+}
+
+function same4(data: Uint8Array, a: number, b: number): boolean {
+  return (
+    data[a] === data[b] &&
+    data[a + 1] === data[b + 1] &&
+    data[a + 2] === data[b + 2] &&
+    data[a + 3] === data[b + 3]
+  );
+}
+
+class Output {
+  private buf: Uint8Array;
+  private pos = 0;
+
+  constructor(size: number) {
+    this.buf = new Uint8Array(size);
+  }
+
+  private reserve(n: number): void {
+    if (this.pos + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.pos + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.pos));
+    this.buf = next;
+  }
+
+  varint(n: number): void {
+    this.reserve(8);
+    while (n >= 0x80) {
+      this.buf[this.pos++] = (n % 0x80) | 0x80;
+      n = Math.floor(n / 0x80);
+    }
+    this.buf[this.pos++] = n;
+  }
+
+  bytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.buf.set(bytes, this.pos);
+    this.pos += bytes.length;
+  }
+
+  // Exact size, so the buffer can be transferred
+  finish(): Uint8Array {
+    return this.buf.slice(0, this.pos);
+  }
+}
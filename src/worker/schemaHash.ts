@@ -0,0 +1,39 @@
+// Schema fingerprint shared by the worker and the tabs
+import { DB } from "@vlcn.io/crsqlite-wasm";
+
+// Only replicated (crr) tables matter for sync, those have a clock table.
+// Columns come from table_info rather than the CREATE text, so formatting,
+// quoting and comments don't change the hash.
+const CRR_COLUMNS_SQL = `SELECT t.name AS tbl, c.name, upper(c.type) AS type,
+    c."notnull", c.pk
+  FROM sqlite_master t, pragma_table_info(t.name) c
+  WHERE t.type = 'table'
+    AND t.name IN (
+      SELECT substr(name, 1, length(name) - length('__crsql_clock'))
+      FROM sqlite_master
+      WHERE type = 'table' AND name LIKE '%__crsql_clock'
+    )
+  ORDER BY t.name, c.cid`;
+
+interface ColumnInfo {
+  tbl: string;
+  name: string;
+  type: string;
+  notnull: number;
+  pk: number;
+}
+
+export async function computeSchemaHash(db: DB): Promise<string> {
+  const columns = await db.execO<ColumnInfo>(CRR_COLUMNS_SQL);
+  const text = (columns || [])
+    .map((c) => `${c.tbl}.${c.name}:${c.type}:${c.notnull}:${c.pk}`)
+    .join(";");
+
+  // FNV-1a, same as stableName in LeaderWebWorker
+  let h = 2166136261 >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619) >>> 0;
+  }
+  return h.toString(36);
+}
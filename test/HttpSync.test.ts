@@ -0,0 +1,133 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import { HttpSync } from "../src/worker/HttpSync";
+import { SyncScheduler } from "../src/worker/SyncScheduler";
+import {
+  localChangesSince,
+  makeHost,
+  startSyncServer,
+  waitFor,
+} from "./helpers";
+import { openTestDB } from "./testDB";
+
+let server: Awaited<ReturnType<typeof startSyncServer>>;
+const cleanups: (() => void)[] = [];
+
+beforeAll(async () => {
+  server = await startSyncServer();
+});
+
+afterAll(() => server.stop());
+
+afterEach(() => {
+  for (const cleanup of cleanups.splice(0)) cleanup();
+});
+
+interface Device {
+  db: DB;
+  sync: HttpSync;
+  // Remote changes merged into db, a count per batch
+  applied: number[];
+  // Runs sql on db, resolves once the server stored the changes
+  write: (sql: string) => Promise<void>;
+}
+
+// A database syncing over HTTP, pulls only happen through requestSync
+async function device(): Promise<Device> {
+  const db = await openTestDB();
+  const host = await makeHost(db);
+  const applied: number[] = [];
+  const apply = host.applyRemoteChanges;
+  host.applyRemoteChanges = (changes) => {
+    applied.push(changes.length);
+    return apply(changes);
+  };
+  const sync = new HttpSync({
+    url: `http://localhost:${server.port}`,
+    intervalMs: 60000,
+  });
+  const scheduler = new SyncScheduler(db, host.peers, localChangesSince(db), {
+    baseDelayMs: 10,
+    maxDelayMs: 50,
+  });
+  await scheduler.initialize();
+  scheduler.addRemote(sync);
+  host.flush = () => scheduler.flush();
+  await sync.start(host);
+  scheduler.start();
+  cleanups.push(() => {
+    scheduler.stop();
+    sync.stop();
+  });
+
+  return {
+    db,
+    sync,
+    applied,
+    write: async (sql) => {
+      await db.exec(sql);
+      scheduler.enqueue();
+      const [[version]] = await db.execA<[number]>(
+        "SELECT crsql_db_version()"
+      );
+      await waitFor(
+        async () => (await host.peers.get(sync.peer, "sent")) >= version
+      );
+    },
+  };
+}
+
+function total(counts: number[]): number {
+  return counts.reduce((sum, n) => sum + n, 0);
+}
+
+async function todoIds(db: DB): Promise<string[]> {
+  const rows = await db.execA<[string]>("SELECT id FROM todo ORDER BY id");
+  return rows.map(([id]) => id);
+}
+
+describe("HttpSync", () => {
+  it("pushes changes and pulls everyone else's from its cursor", async () => {
+    const a = await device();
+    const b = await device();
+
+    await a.write("INSERT INTO todo VALUES ('http-a', 'text', 0)");
+    await b.sync.requestSync();
+    expect(await todoIds(b.db)).toEqual(["http-a"]);
+    // Two column changes, a gets none of its own back
+    await a.sync.requestSync();
+    expect(total(a.applied)).toBe(0);
+    expect(total(b.applied)).toBe(2);
+
+    // Nothing new after the cursor
+    await b.sync.requestSync();
+    expect(total(b.applied)).toBe(2);
+    await a.write("UPDATE todo SET text = 'changed'");
+    await b.sync.requestSync();
+    expect(total(b.applied)).toBe(3);
+  });
+
+  it("stores a change pushed twice only once", async () => {
+    const a = await device();
+    // Caught up with earlier tests on the same server
+    const b = await device();
+    const before = total(b.applied);
+
+    await a.write("INSERT INTO todo VALUES ('twice', 'text', 0)");
+    await a.sync.send(await localChangesSince(a.db)(0));
+    await b.sync.requestSync();
+    expect(total(b.applied) - before).toBe(2);
+  });
+
+  it("rejects when the server does", async () => {
+    const a = await device();
+    const broken = new HttpSync({
+      url: `http://localhost:${server.port}/nope`,
+    });
+    await expect(broken.send([])).rejects.toThrow("HttpSync not started");
+    await expect(broken.start(await makeHost(a.db))).rejects.toThrow(
+      "HTTP sync /pull"
+    );
+    broken.stop();
+  });
+});
@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import { Event, generateSecretKey } from "nostr-tools";
+import { InMemoryRelay } from "../src/worker/InMemoryRelay";
+import { NostrSync } from "../src/worker/NostrSync";
+import type { RemoteSyncHost } from "../src/worker/RemoteSync";
+import { SyncScheduler } from "../src/worker/SyncScheduler";
+import { localChangesSince, makeHost, waitFor } from "./helpers";
+import { openTestDB } from "./testDB";
+
+// Relay that turns away the first publishes, like one that's unreachable,
+// and events above the usual 64KB limit
+class StrictRelay extends InMemoryRelay {
+  failures: number;
+
+  constructor(failures = 0) {
+    super();
+    this.failures = failures;
+  }
+
+  async publish(event: Event): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("relay unreachable");
+    }
+    if (JSON.stringify(event).length > 64 * 1024) {
+      throw new Error("invalid: event too large");
+    }
+    return super.publish(event);
+  }
+}
+
+interface Device {
+  db: DB;
+  host: RemoteSyncHost;
+  sync: NostrSync;
+}
+
+const cleanups: (() => void)[] = [];
+
+afterEach(() => {
+  for (const cleanup of cleanups.splice(0)) cleanup();
+});
+
+async function device(secretKey: Uint8Array, relay: InMemoryRelay): Promise<Device> {
+  const db = await openTestDB();
+  const host = await makeHost(db);
+  const sync = new NostrSync({ secretKey, relay, dbName: "test" });
+  await sync.start(host);
+  cleanups.push(() => sync.stop());
+  return { db, host, sync };
+}
+
+async function schedule({ db, host, sync }: Device): Promise<SyncScheduler> {
+  const scheduler = new SyncScheduler(db, host.peers, localChangesSince(db), {
+    baseDelayMs: 10,
+    maxDelayMs: 20,
+  });
+  await scheduler.initialize();
+  scheduler.addRemote(sync);
+  scheduler.start();
+  cleanups.push(() => scheduler.stop());
+  return scheduler;
+}
+
+async function todoCount(db: DB): Promise<number> {
+  const [[count]] = await db.execA<[number]>("SELECT count(*) FROM todo");
+  return count;
+}
+
+describe("NostrSync", () => {
+  it("delivers through a relay that turns the first publishes away", async () => {
+    const secretKey = generateSecretKey();
+    const relay = new StrictRelay(2);
+    const a = await device(secretKey, relay);
+    const b = await device(secretKey, relay);
+
+    await a.db.exec("INSERT INTO todo VALUES ('a', 'from A', 0)");
+    const scheduler = await schedule(a);
+
+    await waitFor(async () => {
+      const rows = await b.db.execA("SELECT text FROM todo WHERE id = 'a'");
+      return rows?.[0]?.[0] === "from A";
+    });
+    expect(relay.failures).toBe(0);
+    expect(relay.getEvents()).toHaveLength(1);
+    expect((await scheduler.getStatus()).depth).toBe(0);
+  });
+
+  it("splits large changesets into events relays accept", async () => {
+    const secretKey = generateSecretKey();
+    const relay = new StrictRelay();
+    const a = await device(secretKey, relay);
+    const b = await device(secretKey, relay);
+
+    // Multi-byte text, about 3KB of UTF-8 per row
+    const text = "ü✓".repeat(600);
+    await a.db.tx(async (tx) => {
+      for (let i = 0; i < 60; i++) {
+        await tx.exec("INSERT INTO todo VALUES (?, ?, 0)", [`t${i}`, text]);
+      }
+    });
+    await schedule(a);
+
+    await waitFor(async () => (await todoCount(b.db)) === 60);
+    expect(relay.getEvents().length).toBeGreaterThan(1);
+  });
+
+  it("reports changes too large for any event instead of dropping them silently", async () => {
+    const secretKey = generateSecretKey();
+    const relay = new StrictRelay();
+    const a = await device(secretKey, relay);
+    const b = await device(secretKey, relay);
+
+    await a.db.exec("INSERT INTO todo VALUES ('small', 'fits', 0)");
+    await a.db.exec("INSERT INTO todo VALUES ('huge', ?, 0)", [
+      "x".repeat(70000),
+    ]);
+    const scheduler = await schedule(a);
+
+    await waitFor(async () => (await scheduler.getStatus()).rejected === 1);
+    const status = await scheduler.getStatus();
+    expect(status.depth).toBe(0);
+    expect(status.remotes[0].rejected).toBe(1);
+    // Only the oversized column change stays behind
+    await waitFor(async () => (await todoCount(b.db)) === 2);
+    const rows = await b.db.execA("SELECT id, text FROM todo ORDER BY id");
+    expect(rows).toEqual([
+      ["huge", null],
+      ["small", "fits"],
+    ]);
+  });
+});
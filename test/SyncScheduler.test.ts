@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import type { Change } from "../src/worker/CRSqliteWorkerBase";
+import { PeerTracker } from "../src/worker/PeerTracker";
+import type { RemoteSync } from "../src/worker/RemoteSync";
+import { SyncScheduler } from "../src/worker/SyncScheduler";
+import { localChangesSince, waitFor } from "./helpers";
+import { openTestDB } from "./testDB";
+
+const schedulers: SyncScheduler[] = [];
+
+afterEach(() => {
+  for (const scheduler of schedulers.splice(0)) scheduler.stop();
+});
+
+async function startScheduler(
+  db: DB,
+  remote: RemoteSync,
+  options: { baseDelayMs: number; maxDelayMs: number }
+): Promise<{ scheduler: SyncScheduler; peers: PeerTracker }> {
+  const peers = new PeerTracker(db);
+  await peers.initialize();
+  const scheduler = new SyncScheduler(db, peers, localChangesSince(db), options);
+  await scheduler.initialize();
+  scheduler.addRemote(remote);
+  scheduler.start();
+  schedulers.push(scheduler);
+  return { scheduler, peers };
+}
+
+describe("SyncScheduler", () => {
+  it("retries failed sends with growing delays until they go through", async () => {
+    const db = await openTestDB();
+    await db.exec("INSERT INTO todo VALUES ('a', 'first', 0)");
+
+    const sent: Change[][] = [];
+    const attemptsAt: number[] = [];
+    const remote: RemoteSync = {
+      peer: "test-remote",
+      start: async () => {},
+      send: async (changes) => {
+        attemptsAt.push(Date.now());
+        if (attemptsAt.length <= 3) throw new Error("remote down");
+        sent.push(changes);
+      },
+      stop: () => {},
+    };
+    const { scheduler, peers } = await startScheduler(db, remote, {
+      baseDelayMs: 40,
+      maxDelayMs: 100,
+    });
+
+    await waitFor(async () => (await scheduler.getStatus()).nextRetryAt !== null);
+    const status = await scheduler.getStatus();
+    expect(status.depth).toBe(1);
+    expect(status.remotes[0].attempts).toBe(1);
+    // Half to all of the 40ms base delay
+    expect(status.nextRetryAt! - attemptsAt[0]).toBeGreaterThanOrEqual(20);
+    expect(status.nextRetryAt! - Date.now()).toBeLessThanOrEqual(40);
+
+    await waitFor(() => sent.length === 1);
+    // 40ms, 80ms, then capped at 100ms, each at least half of that
+    expect(attemptsAt[1] - attemptsAt[0]).toBeGreaterThanOrEqual(18);
+    expect(attemptsAt[2] - attemptsAt[1]).toBeGreaterThanOrEqual(38);
+    expect(attemptsAt[3] - attemptsAt[2]).toBeGreaterThanOrEqual(48);
+    expect(sent[0].map((c) => c.val)).toContain("first");
+
+    const after = await scheduler.getStatus();
+    expect(after.depth).toBe(0);
+    expect(after.nextRetryAt).toBeNull();
+    const [[version]] = await db.execA<[number]>("SELECT crsql_db_version()");
+    expect(await peers.get("test-remote", "sent")).toBe(version);
+  });
+
+  it("skips the backoff on flush", async () => {
+    const db = await openTestDB();
+    await db.exec("INSERT INTO todo VALUES ('a', 'first', 0)");
+
+    let down = true;
+    const remote: RemoteSync = {
+      peer: "test-remote",
+      start: async () => {},
+      send: async () => {
+        if (down) throw new Error("remote down");
+      },
+      stop: () => {},
+    };
+    const { scheduler } = await startScheduler(db, remote, {
+      baseDelayMs: 60000,
+      maxDelayMs: 60000,
+    });
+
+    await waitFor(async () => (await scheduler.getStatus()).nextRetryAt !== null);
+    down = false;
+    scheduler.flush();
+    await waitFor(async () => (await scheduler.getStatus()).depth === 0);
+  });
+
+});
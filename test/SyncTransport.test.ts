@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { BroadcastMessage } from "../src/worker/CRSqliteWorkerBase";
+import {
+  BroadcastChannelPackageTransport,
+  BroadcastChannelTransport,
+  InMemoryTransport,
+  SyncTransport,
+} from "../src/worker/SyncTransport";
+import { waitFor } from "./helpers";
+
+const message: BroadcastMessage = {
+  type: "changes-applied",
+  changeset: new Uint8Array([1, 2, 3, 255]).buffer,
+  seq: 1,
+  epoch: "e",
+};
+
+// Posts from one end and checks only the other gets a copy
+async function roundTrip(a: SyncTransport, b: SyncTransport): Promise<void> {
+  const atA: BroadcastMessage[] = [];
+  const atB: BroadcastMessage[] = [];
+  a.subscribe((m) => atA.push(m));
+  const unsubscribe = b.subscribe((m) => atB.push(m));
+
+  a.post(message);
+  await waitFor(() => atB.length === 1);
+  expect(atB[0]).toEqual(message);
+  expect(atB[0]).not.toBe(message);
+
+  unsubscribe();
+  a.post(message);
+  b.post(message);
+  await waitFor(() => atA.length === 1);
+  expect(atB).toHaveLength(1);
+}
+
+describe("sync transports", () => {
+  it("InMemoryTransport", async () => {
+    const a = new InMemoryTransport("transport-test");
+    const b = new InMemoryTransport("transport-test");
+    const elsewhere = new InMemoryTransport("transport-test-other");
+    const other: BroadcastMessage[] = [];
+    elsewhere.subscribe((m) => other.push(m));
+
+    await roundTrip(a, b);
+    expect(other).toEqual([]);
+    for (const t of [a, b, elsewhere]) t.close();
+  });
+
+  it("BroadcastChannelTransport", async () => {
+    const a = new BroadcastChannelTransport("transport-test");
+    const b = new BroadcastChannelTransport("transport-test");
+    await roundTrip(a, b);
+    a.close();
+    b.close();
+  });
+
+  it("BroadcastChannelPackageTransport keeps the changeset's bytes", async () => {
+    const a = new BroadcastChannelPackageTransport("transport-test-package");
+    const b = new BroadcastChannelPackageTransport("transport-test-package");
+    await roundTrip(a, b);
+    a.close();
+    b.close();
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import { WebSocket } from "ws";
+import { SyncScheduler } from "../src/worker/SyncScheduler";
+import { WebSocketSync } from "../src/worker/WebSocketSync";
+import {
+  localChangesSince,
+  makeHost,
+  startSyncServer,
+  waitFor,
+} from "./helpers";
+import { openTestDB } from "./testDB";
+
+let server: Awaited<ReturnType<typeof startSyncServer>>;
+const cleanups: (() => void)[] = [];
+
+beforeAll(async () => {
+  // Node 20 has no WebSocket of its own
+  vi.stubGlobal("WebSocket", WebSocket);
+  server = await startSyncServer();
+});
+
+afterAll(() => {
+  server.stop();
+  vi.unstubAllGlobals();
+});
+
+afterEach(() => {
+  for (const cleanup of cleanups.splice(0)) cleanup();
+});
+
+interface Device {
+  db: DB;
+  // Remote changes merged into db, a count per batch
+  applied: number[];
+  scheduler: SyncScheduler;
+  // Runs sql on db and queues the changes for the server
+  write: (sql: string) => Promise<void>;
+  stop: () => void;
+}
+
+// A database that syncs with the server until stopped or the test ends
+async function device(db?: DB): Promise<Device> {
+  db ??= await openTestDB();
+  const host = await makeHost(db);
+  const applied: number[] = [];
+  const apply = host.applyRemoteChanges;
+  host.applyRemoteChanges = (changes) => {
+    applied.push(changes.length);
+    return apply(changes);
+  };
+  const sync = new WebSocketSync({
+    url: `ws://localhost:${server.port}`,
+    reconnectMs: 50,
+  });
+  const scheduler = new SyncScheduler(db, host.peers, localChangesSince(db), {
+    baseDelayMs: 10,
+    maxDelayMs: 50,
+  });
+  await scheduler.initialize();
+  scheduler.addRemote(sync);
+  host.flush = () => scheduler.flush();
+  await sync.start(host);
+  scheduler.start();
+
+  const stop = () => {
+    scheduler.stop();
+    sync.stop();
+  };
+  cleanups.push(stop);
+  return {
+    db,
+    applied,
+    scheduler,
+    write: async (sql) => {
+      await db!.exec(sql);
+      scheduler.enqueue();
+    },
+    stop,
+  };
+}
+
+function total(counts: number[]): number {
+  return counts.reduce((sum, n) => sum + n, 0);
+}
+
+async function todoIds(db: DB): Promise<string[]> {
+  const rows = await db.execA<[string]>("SELECT id FROM todo ORDER BY id");
+  return rows.map(([id]) => id);
+}
+
+describe("WebSocketSync", () => {
+  it("pushes changes and gets everyone else's live, not its own", async () => {
+    const a = await device();
+    const b = await device();
+
+    await a.write("INSERT INTO todo VALUES ('ws-a', 'text', 0)");
+    await b.write("INSERT INTO todo VALUES ('ws-b', 'text', 0)");
+    await waitFor(async () => (await todoIds(a.db)).includes("ws-b"));
+    await waitFor(async () => (await todoIds(b.db)).includes("ws-a"));
+    // Two column changes per row, each device got only the other's
+    expect(total(a.applied)).toBe(2);
+    expect(total(b.applied)).toBe(2);
+  });
+
+  it("resumes from its cursor after reconnecting", async () => {
+    const a = await device();
+    const b = await device();
+    await a.write("INSERT INTO todo VALUES ('first', 'text', 0)");
+    await waitFor(async () => (await todoIds(b.db)).includes("first"));
+
+    // b goes away, a writes on, b comes back with the same database
+    b.stop();
+    await a.write("INSERT INTO todo VALUES ('second', 'text', 0)");
+    // Acked by the server before b is back
+    await waitFor(async () => (await a.scheduler.getStatus()).depth === 0);
+    const again = await device(b.db);
+
+    await waitFor(async () => (await todoIds(b.db)).includes("second"));
+    // Only what it missed, not "first" again
+    expect(total(again.applied)).toBe(2);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { waitFor } from "./helpers";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+describe("cancellable requests", () => {
+  it("rejects at once for a signal that's already aborted", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    const controller = new AbortController();
+    controller.abort(new Error("not needed anymore"));
+
+    await expect(
+      tab.dbExec("INSERT INTO todo VALUES ('a', 'text', 0)", [], {
+        signal: controller.signal,
+      })
+    ).rejects.toThrow("not needed anymore");
+    expect(await tab.dbExecA("SELECT * FROM todo")).toEqual([]);
+  });
+
+  it("tells the worker when a request is aborted or times out", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    const slow =
+      "WITH RECURSIVE n(i) AS (SELECT 1 UNION ALL SELECT i + 1 FROM n WHERE i < 300000) SELECT count(*) FROM n";
+
+    const controller = new AbortController();
+    const aborted = tab.dbExecA(slow, [], { signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: "AbortError" });
+
+    // No answer in time from a stalled worker
+    tab.held = [];
+    await expect(tab.dbExecA(slow, [], { timeoutMs: 50 })).rejects.toThrow(
+      "Database execution timeout"
+    );
+    tab.release();
+
+    await waitFor(
+      () => tab.responses.filter((r) => r.type === "cancel-ack").length === 2
+    );
+  });
+
+  it("runs statements that can't be in a transaction", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    await tab.dbExec("INSERT INTO todo VALUES ('a', 'text', 0)");
+
+    await tab.dbExec("VACUUM");
+    expect(await tab.dbExecA("SELECT id FROM todo")).toEqual([["a"]]);
+  });
+});
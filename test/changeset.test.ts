@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import type { Change } from "../src/worker/CRSqliteWorkerBase";
+import { decodeChangeset, encodeChangeset } from "../src/worker/changeset";
+
+function change(val: any, overrides: Partial<Change> = {}): Change {
+  return {
+    table: "todo",
+    pk: new Uint8Array([1, 9, 1, 2]),
+    cid: "text",
+    val,
+    col_version: 1,
+    db_version: 7,
+    site_id: new Uint8Array(16).fill(0xab),
+    cl: 1,
+    seq: 0,
+    ...overrides,
+  };
+}
+
+describe("changeset", () => {
+  it("round-trips every value type", () => {
+    const values = [
+      null,
+      0,
+      1,
+      -1,
+      1.5,
+      -0.25,
+      "",
+      "zürich ✓ 🚀",
+      new Uint8Array([0, 255, 7]),
+      12345678901234567890n,
+      -5n,
+    ];
+    const changes = values.map((val, i) => change(val, { seq: i }));
+    expect(decodeChangeset(encodeChangeset(changes))).toEqual(changes);
+  });
+
+  it("keeps integers whose zigzag form is beyond 2^53", () => {
+    const values = [
+      2 ** 52 - 1,
+      2 ** 52 + 1,
+      -(2 ** 52) - 3,
+      Number.MAX_SAFE_INTEGER,
+      Number.MIN_SAFE_INTEGER,
+    ];
+    const decoded = decodeChangeset(
+      encodeChangeset(values.map((val) => change(val)))
+    );
+    expect(decoded.map((c) => Number(c.val))).toEqual(values);
+  });
+
+  it("shares tables, columns and sites between changes", () => {
+    const other = new Uint8Array(16).fill(1);
+    const changes = [
+      change("a"),
+      change("b", { cid: "complete", site_id: other, db_version: 8 }),
+      change("c", { table: "todo_list", db_version: 2 ** 40 }),
+    ];
+    expect(decodeChangeset(encodeChangeset(changes))).toEqual(changes);
+  });
+
+  it("rejects other data and truncated changesets", () => {
+    expect(() => decodeChangeset(new Uint8Array([1, 2, 3, 4]).buffer)).toThrow(
+      "Not a changeset"
+    );
+    const encoded = encodeChangeset([change("text")]);
+    expect(() => decodeChangeset(encoded.slice(0, -3))).toThrow(
+      "Truncated changeset"
+    );
+  });
+});
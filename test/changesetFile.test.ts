@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import { siteIdHex } from "../src/worker/CRSqliteWorkerBase";
+import {
+  readChangesetFile,
+  writeChangesetFile,
+} from "../src/worker/changesetFile";
+import { waitFor } from "./helpers";
+import { startWorker, TestClient, TestWorker } from "./harness";
+
+const hosts: TestWorker[] = [];
+
+afterEach(() => {
+  for (const host of hosts.splice(0)) host.stop();
+});
+
+async function start(): Promise<{ host: TestWorker; tab: TestClient }> {
+  const host = await startWorker();
+  hosts.push(host);
+  return { host, tab: await host.connect() };
+}
+
+async function todoIds(db: DB): Promise<string[]> {
+  const rows = await db.execA<[string]>("SELECT id FROM todo ORDER BY id");
+  return rows.map(([id]) => id);
+}
+
+// Written on the tab, merged into the worker's database under the tab's site
+async function write(tab: TestClient, host: TestWorker, id: string) {
+  await tab.localDb.exec("INSERT INTO todo VALUES (?, 'text', 0)", [id]);
+  tab.triggerSync();
+  await waitFor(async () => (await todoIds(host.db)).includes(id));
+}
+
+describe("changeset files", () => {
+  it("moves changes to another database and its tabs", async () => {
+    const from = await start();
+    await write(from.tab, from.host, "a");
+    await from.tab.dbExec("INSERT INTO todo VALUES ('b', 'text', 0)");
+
+    const { file, header } = await from.tab.exportChanges();
+    expect(header.siteId).toBe(siteIdHex(from.tab.getWorkerSiteId()!));
+    expect(header.sites).toHaveLength(2);
+    expect(header.changes).toBe(4);
+    expect(header.until).toEqual(
+      Object.fromEntries(header.sites.map((s) => [s.siteId, s.toVersion]))
+    );
+
+    const to = await start();
+    expect(await to.tab.importChanges(file)).toBe(4);
+    expect(await todoIds(to.host.db)).toEqual(["a", "b"]);
+    await waitFor(async () => (await todoIds(to.tab.localDb)).length === 2);
+  });
+
+  it("continues from an earlier export, tab changes included", async () => {
+    const from = await start();
+    await write(from.tab, from.host, "a");
+    const first = await from.tab.exportChanges();
+
+    // The tab's versions are below the worker's, they still count
+    await from.tab.dbExec("INSERT INTO todo VALUES ('b', 'text', 0)");
+    await write(from.tab, from.host, "c");
+    const second = await from.tab.exportChanges(first.header);
+    expect(second.header.changes).toBe(4);
+
+    const to = await start();
+    await to.tab.importChanges(second.file);
+    expect(await todoIds(to.host.db)).toEqual(["b", "c"]);
+
+    const third = await from.tab.exportChanges(second.header);
+    expect(third.header.changes).toBe(0);
+  });
+
+  it("refuses to continue from an export of another database", async () => {
+    const a = await start();
+    const b = await start();
+    await write(a.tab, a.host, "a");
+    const { header } = await a.tab.exportChanges();
+
+    await expect(b.tab.exportChanges(header)).rejects.toThrow(
+      "Can't continue from an export of"
+    );
+  });
+
+  it("rejects files of another schema or with a header that doesn't match", async () => {
+    const { host, tab } = await start();
+    await write(tab, host, "a");
+    const changes = await host.db.execO<any>("SELECT * FROM crsql_changes");
+    const options = { siteId: "AB", compressionThreshold: 1024 };
+
+    const other = await writeChangesetFile(changes, {
+      ...options,
+      schemaHash: "other",
+    });
+    await expect(tab.importChanges(other.file)).rejects.toThrow(
+      "Changeset file is for schema other"
+    );
+
+    const { file } = await writeChangesetFile(changes, {
+      ...options,
+      schemaHash: "s",
+    });
+    await expect(readChangesetFile(file.slice(0, -4), "s")).rejects.toThrow();
+  });
+});
@@ -0,0 +1,173 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import type {
+  BroadcastMessage,
+  Change,
+} from "../src/worker/CRSqliteWorkerBase";
+import {
+  ChangesetCompression,
+  CompressionStats,
+  packChangeset,
+  pickCompression,
+  unpackChangeset,
+} from "../src/worker/compression";
+import { lzCompress, lzDecompress } from "../src/worker/lz";
+import { waitFor } from "./helpers";
+import { startWorker, TestClient, TestWorker } from "./harness";
+
+function change(val: any, seq: number): Change {
+  return {
+    table: "todo",
+    pk: new Uint8Array([1, 9, 1, seq % 256]),
+    cid: "text",
+    val,
+    col_version: 1,
+    db_version: 7 + seq,
+    site_id: new Uint8Array(16).fill(0xab),
+    cl: 1,
+    seq: 0,
+  };
+}
+
+function stats(): CompressionStats {
+  return {
+    formats: [],
+    threshold: 1024,
+    payloads: 0,
+    compressed: 0,
+    bytesBefore: 0,
+    bytesAfter: 0,
+  };
+}
+
+describe("lz", () => {
+  it("round-trips empty, random and repetitive data", () => {
+    const random = new Uint8Array(5000).map(() => (Math.random() * 256) | 0);
+    const repetitive = new TextEncoder().encode("abcabcabcd".repeat(500));
+    // A run longer than its offset, the match overlaps its own output
+    const run = new Uint8Array(3000).fill(7);
+    for (const data of [new Uint8Array(0), random, repetitive, run]) {
+      expect(lzDecompress(lzCompress(data))).toEqual(data);
+    }
+    expect(lzCompress(repetitive).length).toBeLessThan(repetitive.length / 10);
+  });
+
+  it("rejects corrupt and truncated data", () => {
+    const compressed = lzCompress(new TextEncoder().encode("xyz".repeat(100)));
+    expect(() => lzDecompress(compressed.slice(0, -2))).toThrow();
+    // Back reference before the start
+    expect(() => lzDecompress(new Uint8Array([10, 0, 5, 2]))).toThrow(
+      "Corrupt lz data"
+    );
+  });
+});
+
+describe("compression", () => {
+  it.each<ChangesetCompression>(["gzip", "lz"])(
+    "packs with %s above the threshold and unpacks either way",
+    async (format) => {
+      const changes = Array.from({ length: 200 }, (_, i) =>
+        change("same text over and over", i)
+      );
+      const counted = stats();
+
+      const large = await packChangeset(changes, format, 1024, counted);
+      expect(large.compression).toBe(format);
+      expect(await unpackChangeset(large)).toEqual(changes);
+
+      const small = await packChangeset(changes.slice(0, 1), format, 1024, counted);
+      expect(small.compression).toBeUndefined();
+      expect(await unpackChangeset(small)).toEqual(changes.slice(0, 1));
+
+      expect(counted.payloads).toBe(2);
+      expect(counted.compressed).toBe(1);
+      expect(counted.bytesAfter).toBeLessThan(counted.bytesBefore);
+    }
+  );
+
+  it("picks our best format the other side reads", () => {
+    expect(pickCompression(["gzip", "lz"], ["lz", "gzip"])).toBe("gzip");
+    expect(pickCompression(["gzip", "lz"], ["lz"])).toBe("lz");
+    expect(pickCompression(["gzip", "lz"], undefined)).toBeNull();
+    expect(pickCompression([], ["gzip", "lz"])).toBeNull();
+  });
+});
+
+describe("compression negotiation", () => {
+  let host: TestWorker | null = null;
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    host?.stop();
+    host = null;
+  });
+
+  // A tab without CompressionStream
+  function stubStreams() {
+    vi.stubGlobal("CompressionStream", undefined);
+    vi.stubGlobal("DecompressionStream", undefined);
+  }
+
+  async function insertTodos(db: DB) {
+    await db.tx(async (tx) => {
+      for (let i = 0; i < 100; i++) {
+        await tx.exec(
+          "INSERT INTO todo VALUES (?, 'same text over and over', 0)",
+          [`t${i}`]
+        );
+      }
+    });
+  }
+
+  async function todoCount(db: DB): Promise<number> {
+    const [[count]] = await db.execA<[number]>("SELECT count(*) FROM todo");
+    return count;
+  }
+
+  function syncFormats(client: TestClient) {
+    return client.responses
+      .filter((r) => r.type === "sync-data")
+      .map((r) => r.compression);
+  }
+
+  it("syncs each tab in the best format it reads", async () => {
+    host = await startWorker({ compressionThreshold: 256 });
+    await insertTodos(host.db);
+
+    const gzipTab = await host.connect();
+    stubStreams();
+    const lzTab = await host.connect();
+
+    expect(syncFormats(gzipTab)).toEqual(["gzip"]);
+    expect(gzipTab.getCompressionStats().formats).toEqual(["gzip", "lz"]);
+    expect(syncFormats(lzTab)).toEqual(["lz"]);
+    expect(lzTab.getCompressionStats().formats).toEqual(["lz"]);
+    expect(await todoCount(gzipTab.localDb)).toBe(100);
+    expect(await todoCount(lzTab.localDb)).toBe(100);
+  });
+
+  it("broadcasts in the format every tab reads", async () => {
+    host = await startWorker({ compressionThreshold: 256 });
+    const gzipTab = await host.connect();
+    const broadcasts: BroadcastMessage[] = [];
+    host.transport.subscribe((message) => broadcasts.push(message));
+    stubStreams();
+    const lzTab = await host.connect();
+
+    // The gzip tab's changes reach the worker and the other tab in lz
+    await insertTodos(gzipTab.localDb);
+    gzipTab.triggerSync();
+    await waitFor(async () => (await todoCount(lzTab.localDb)) === 100);
+    const uploads = broadcasts.filter((m) => m.type === "changes");
+    expect(uploads.map((m) => m.compression)).toEqual(["lz"]);
+
+    // Writes on the worker's database too
+    await gzipTab.dbExec(
+      "UPDATE todo SET text = 'changed by the worker, over and over'"
+    );
+    await waitFor(async () => {
+      const rows = await lzTab.localDb.execA("SELECT DISTINCT text FROM todo");
+      return rows[0]?.[0] === "changed by the worker, over and over";
+    });
+  });
+});
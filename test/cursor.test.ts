@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { startWorker, TestClient, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+async function collect<T>(rows: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const row of rows) result.push(row);
+  return result;
+}
+
+async function startWithTodos(count: number): Promise<TestClient> {
+  host = await startWorker();
+  await host.db.tx(async (tx) => {
+    for (let i = 0; i < count; i++) {
+      await tx.exec("INSERT INTO todo VALUES (?, 'text', ?)", [
+        `t${String(i).padStart(3, "0")}`,
+        i % 2,
+      ]);
+    }
+  });
+  return host.connect();
+}
+
+function fetches(tab: TestClient): number {
+  return tab.responses.filter((r) => Array.isArray(r.result?.rows)).length;
+}
+
+describe("dbCursor", () => {
+  it("streams all rows in batches", async () => {
+    const tab = await startWithTodos(25);
+
+    const rows = await collect(
+      tab.dbCursor<{ id: string }>("SELECT id FROM todo ORDER BY id", [], {
+        batchSize: 10,
+      })
+    );
+    expect(rows).toHaveLength(25);
+    expect(rows[24]).toEqual({ id: "t024" });
+    expect(fetches(tab)).toBe(3);
+  });
+
+  it("runs the statement as written", async () => {
+    const tab = await startWithTodos(3);
+
+    // A trailing comment, and a duplicate column a sub-select would rename
+    const rows = await collect(
+      tab.dbCursor<any>(
+        "SELECT id, complete, id FROM todo WHERE complete = ? ORDER BY id -- odd ones",
+        [1]
+      )
+    );
+    expect(rows).toEqual([{ id: "t001", complete: 1 }]);
+
+    const opened = tab.responses.find((r) => r.result?.columns);
+    expect(opened?.result.columns).toEqual(["id", "complete", "id"]);
+  });
+
+  it("closes the cursor when the loop stops early", async () => {
+    const tab = await startWithTodos(25);
+
+    for await (const row of tab.dbCursor("SELECT id FROM todo", [], {
+      batchSize: 5,
+    })) {
+      expect(row).toBeDefined();
+      break;
+    }
+    expect(fetches(tab)).toBe(1);
+    // Another cursor still works after the close
+    const rows = await collect(tab.dbCursor("SELECT id FROM todo"));
+    expect(rows).toHaveLength(25);
+  });
+
+  it("refuses writes and scripts", async () => {
+    const tab = await startWithTodos(1);
+
+    await expect(
+      collect(tab.dbCursor("DELETE FROM todo RETURNING id"))
+    ).rejects.toThrow();
+    await expect(
+      collect(tab.dbCursor("SELECT id FROM todo; DELETE FROM todo"))
+    ).rejects.toThrow();
+    expect(await tab.dbExecA("SELECT count(*) FROM todo")).toEqual([[1]]);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import type { BroadcastMessage } from "../src/worker/CRSqliteWorkerBase";
+import { InMemoryTransport } from "../src/worker/SyncTransport";
+import { waitFor } from "./helpers";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+let listener: InMemoryTransport | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+  listener?.close();
+  listener = null;
+});
+
+async function todoCount(db: DB): Promise<number> {
+  const [[count]] = await db.execA<[number]>("SELECT count(*) FROM todo");
+  return count;
+}
+
+// Everything posted on the worker's sync channel from now on
+function listen(host: TestWorker): BroadcastMessage[] {
+  const messages: BroadcastMessage[] = [];
+  listener = new InMemoryTransport(host.channel);
+  listener.subscribe((message) => messages.push(message));
+  return messages;
+}
+
+describe("delivery", () => {
+  it("goes over the sync channel by default", async () => {
+    host = await startWorker();
+    const a = await host.connect();
+    const b = await host.connect();
+    const channel = listen(host);
+
+    await a.localDb.exec("INSERT INTO todo VALUES ('a', 'text', 0)");
+    a.triggerSync();
+    await waitFor(async () => (await todoCount(b.localDb)) === 1);
+
+    expect(channel.map((m) => m.type)).toEqual(
+      expect.arrayContaining(["changes", "changes-ack", "changes-applied"])
+    );
+    expect(b.responses.some((r) => r.type === "broadcast")).toBe(false);
+  });
+
+  it("goes through the tabs' ports when asked for", async () => {
+    host = await startWorker({ delivery: "ports" });
+    const a = await host.connect();
+    const b = await host.connect();
+    const channel = listen(host);
+
+    await a.localDb.exec("INSERT INTO todo VALUES ('a', 'text', 0)");
+    a.triggerSync();
+    await waitFor(async () => (await todoCount(b.localDb)) === 1);
+    await waitFor(() => a.getAckedVersion() > 0);
+
+    expect(channel).toEqual([]);
+    const delivered = b.responses.filter((r) => r.type === "broadcast");
+    expect(delivered.map((r) => r.broadcast!.type)).toEqual([
+      "changes-applied",
+    ]);
+    // The sender only gets the sequence number, not its own changes back
+    const echo = a.responses.find(
+      (r) => r.broadcast?.type === "changes-applied"
+    );
+    expect(echo?.broadcast?.seq).toBe(delivered[0].broadcast!.seq);
+    expect(echo?.broadcast?.changeset).toBeUndefined();
+  });
+});
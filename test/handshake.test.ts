@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { CRSqliteWorkerError } from "../src/worker/CRSqliteWorkerClientBase";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+describe("ready handshake", () => {
+  it("fails pending and new requests of a tab with another schema", async () => {
+    host = await startWorker();
+
+    // The initial sync is pending when "ready" arrives
+    const start = host.connect(async (db) => {
+      await db.exec("CREATE TABLE note (id PRIMARY KEY NOT NULL, body)");
+      await db.exec("SELECT crsql_as_crr('note')");
+    });
+    await expect(start).rejects.toMatchObject({ code: "VERSION_MISMATCH" });
+
+    const [tab] = host.clients;
+    const exec = tab.dbExec("SELECT 1");
+    await expect(exec).rejects.toBeInstanceOf(CRSqliteWorkerError);
+    await expect(exec).rejects.toThrow("worker schema");
+    await expect(tab.requestSync()).rejects.toMatchObject({
+      code: "VERSION_MISMATCH",
+    });
+  });
+
+  it("lets a tab with the same schema in", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    expect(tab.isRunning()).toBe(true);
+    expect(tab.getWorkerSiteId()).not.toBeNull();
+  });
+});
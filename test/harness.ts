@@ -0,0 +1,144 @@
+// A real worker and tabs talking over MessageChannels and an in-memory
+// sync channel, what the browser gives them through SharedWorker ports
+// and BroadcastChannel
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import type {
+  BroadcastMessage,
+  WorkerMessage,
+  WorkerResponse,
+} from "../src/worker/CRSqliteWorkerBase";
+import { CRSqliteWorkerClientBase } from "../src/worker/CRSqliteWorkerClientBase";
+import {
+  CRSqliteSharedWorker,
+  CRSqliteSharedWorkerOptions,
+} from "../src/worker/CRSqliteSharedWorker";
+import { InMemoryTransport, SyncTransport } from "../src/worker/SyncTransport";
+import { openTestDB } from "./testDB";
+
+let channels = 0;
+
+export class TestClient extends CRSqliteWorkerClientBase {
+  // Everything the worker sent through the port, in order
+  readonly responses: WorkerResponse[] = [];
+  // The tab's own database
+  readonly localDb: DB;
+  // Numbered broadcasts to lose before the next one gets through
+  dropBroadcasts = 0;
+  // Own changes to lose on the way to the worker
+  dropUploads = 0;
+  // Worker messages wait here while set, like from a stalled worker
+  held: WorkerResponse[] | null = null;
+  private port: MessagePort;
+  private transport: SyncTransport;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(db: DB, port: MessagePort, transport: SyncTransport) {
+    super(db);
+    this.localDb = db;
+    this.port = port;
+    this.transport = transport;
+  }
+
+  async start(): Promise<void> {
+    await super.start();
+    this.port.addEventListener("message", (e) => {
+      if (this.held) this.held.push(e.data);
+      else this.receive(e.data);
+    });
+    this.port.start();
+    this.unsubscribe = this.transport.subscribe((message) => {
+      if (this.dropBroadcasts > 0 && message.seq !== undefined) {
+        this.dropBroadcasts--;
+        return;
+      }
+      this.handleBroadcastMessage(message);
+    });
+    await this.requestSync();
+  }
+
+  // Delivers the held messages, later ones go through directly again
+  release(): void {
+    const held = this.held ?? [];
+    this.held = null;
+    for (const response of held) this.receive(response);
+  }
+
+  private receive(response: WorkerResponse): void {
+    this.responses.push(response);
+    this.handleWorkerMessage(response);
+  }
+
+  stop(): void {
+    super.stop();
+    this.unsubscribe?.();
+    this.transport.close();
+    this.port.close();
+  }
+
+  protected postMessage(
+    message: WorkerMessage,
+    options?: StructuredSerializeOptions
+  ): void {
+    this.port.postMessage(message, options);
+  }
+
+  protected broadcastMessage(message: BroadcastMessage): void {
+    if (this.dropUploads > 0 && message.type === "changes") {
+      this.dropUploads--;
+      return;
+    }
+    this.transport.post(message);
+  }
+}
+
+export interface TestWorker {
+  worker: CRSqliteSharedWorker;
+  db: DB;
+  transport: InMemoryTransport;
+  // Name of the sync channel, to listen in with another InMemoryTransport
+  channel: string;
+  // Tabs connected so far, started or not
+  clients: TestClient[];
+  // A new tab with its own database, synced with the worker. setup runs
+  // on that database before the tab starts.
+  connect(setup?: (db: DB) => Promise<void>): Promise<TestClient>;
+  stop(): void;
+}
+
+export async function startWorker(
+  options: CRSqliteSharedWorkerOptions = {}
+): Promise<TestWorker> {
+  const name = `test-${++channels}`;
+  const db = await openTestDB();
+  const transport = new InMemoryTransport(name);
+  const worker = new CRSqliteSharedWorker(db, { transport, ...options });
+  await worker.start();
+
+  const clients: TestClient[] = [];
+  return {
+    worker,
+    db,
+    transport,
+    channel: name,
+    clients,
+    async connect(setup) {
+      const tabDb = await openTestDB();
+      await setup?.(tabDb);
+      const channel = new MessageChannel();
+      worker.onConnect(channel.port1);
+      const client = new TestClient(
+        tabDb,
+        channel.port2,
+        new InMemoryTransport(name)
+      );
+      clients.push(client);
+      await client.start();
+      return client;
+    },
+    stop() {
+      for (const client of clients) client.stop();
+      worker.stop();
+      transport.close();
+    },
+  };
+}
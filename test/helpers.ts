@@ -0,0 +1,87 @@
+// Shared pieces of the tests
+import { spawn } from "node:child_process";
+import { createServer } from "node:net";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import {
+  Change,
+  INSERT_CHANGE_SQL,
+  siteIdHex,
+} from "../src/worker/CRSqliteWorkerBase";
+import { PeerTracker } from "../src/worker/PeerTracker";
+import type { RemoteSyncHost } from "../src/worker/RemoteSync";
+
+// Polls until check passes, for work that happens on timers or messages
+export async function waitFor(
+  check: () => boolean | Promise<boolean>,
+  timeoutMs = 3000
+): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting");
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
+
+// What the worker hands its remotes, changes made on this database
+export function localChangesSince(db: DB) {
+  return async (dbVersion: number) =>
+    (await db.execO<Change>(
+      "SELECT * FROM crsql_changes WHERE db_version > ? AND site_id = crsql_site_id()",
+      [dbVersion]
+    )) || [];
+}
+
+// Host for a remote sync module, merging into the given database
+export async function makeHost(db: DB): Promise<RemoteSyncHost> {
+  const peers = new PeerTracker(db);
+  await peers.initialize();
+  const [[siteId]] = await db.execA<[Uint8Array]>("SELECT crsql_site_id()");
+  return {
+    siteIdHex: siteIdHex(siteId),
+    peers,
+    applyRemoteChanges: async (changes) => {
+      await db.tx(async (tx) => {
+        for (const c of changes) {
+          await tx.exec(INSERT_CHANGE_SQL, [
+            c.table,
+            c.pk,
+            c.cid,
+            c.val,
+            c.col_version,
+            c.db_version,
+            c.site_id,
+            c.cl,
+            c.seq,
+          ]);
+        }
+      });
+    },
+    flush: () => {},
+  };
+}
+
+// Runs server/sync-server.js on a free port until stop() ends the process
+export async function startSyncServer(): Promise<{
+  port: number;
+  stop: () => void;
+}> {
+  const port = await new Promise<number>((resolve) => {
+    const probe = createServer().listen(0, () => {
+      const { port } = probe.address() as { port: number };
+      probe.close(() => resolve(port));
+    });
+  });
+  const server = spawn(process.execPath, ["server/sync-server.js"], {
+    env: { ...process.env, PORT: String(port) },
+    stdio: ["ignore", "pipe", "inherit"],
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once("exit", (code) =>
+      reject(new Error(`sync-server exited with ${code}`))
+    );
+    server.stdout!.on("data", (data) => {
+      if (String(data).includes("Listening")) resolve();
+    });
+  });
+  return { port, stop: () => server.kill() };
+}
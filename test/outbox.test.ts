@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import { waitFor } from "./helpers";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+async function hasTodo(db: DB, id: string): Promise<boolean> {
+  const rows = await db.execA("SELECT 1 FROM todo WHERE id = ?", [id]);
+  return rows.length > 0;
+}
+
+describe("outbox", () => {
+  it("keeps local changes until the worker acknowledges them", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+
+    await tab.localDb.exec("INSERT INTO todo VALUES ('a', 'text', 0)");
+    tab.triggerSync();
+    await waitFor(() => tab.getAckedVersion() > 0);
+    expect(tab.getAckedVersion()).toBe(tab.getLastBroadcastVersion());
+    expect(await hasTodo(host.db, "a")).toBe(true);
+  });
+
+  it("sends lost changes again after a while", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    tab.dropUploads = 1;
+
+    await tab.localDb.exec("INSERT INTO todo VALUES ('a', 'text', 0)");
+    tab.triggerSync();
+    await waitFor(() => tab.getLastBroadcastVersion() > 0);
+    expect(tab.getAckedVersion()).toBe(0);
+
+    await waitFor(() => hasTodo(host!.db, "a"), 6000);
+    await waitFor(() => tab.getAckedVersion() === tab.getLastBroadcastVersion());
+  });
+
+  it("sends what the worker is missing after a sync", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    tab.dropUploads = 1;
+
+    await tab.localDb.exec("INSERT INTO todo VALUES ('a', 'text', 0)");
+    tab.triggerSync();
+    // The worker reports the version it has from us, the rest goes again
+    await tab.requestSync();
+    await waitFor(() => hasTodo(host!.db, "a"), 1000);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { BroadcastMessage } from "../src/worker/CRSqliteWorkerBase";
+import { isSingleStatement } from "../src/worker/StatementCache";
+import { InMemoryTransport } from "../src/worker/SyncTransport";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+describe("dbQuery", () => {
+  it("returns rows as objects", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    await tab.dbExec("INSERT INTO todo VALUES ('a', 'text', 1)");
+
+    expect(await tab.dbQuery("SELECT id, complete FROM todo")).toEqual([
+      { id: "a", complete: 1 },
+    ]);
+  });
+
+  it("refuses writes and scripts, and broadcasts nothing", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    const listener = new InMemoryTransport(host.channel);
+    const broadcasts: BroadcastMessage[] = [];
+    listener.subscribe((message) => broadcasts.push(message));
+
+    await expect(
+      tab.dbQuery("INSERT INTO todo VALUES ('a', 'text', 0)")
+    ).rejects.toThrow();
+    await expect(tab.dbQuery("SELECT 1; DELETE FROM todo")).rejects.toThrow(
+      "Queries must be a single statement"
+    );
+    await expect(
+      tab.dbQuery("WITH x AS (SELECT 1) DELETE FROM todo")
+    ).rejects.toThrow();
+
+    expect(await tab.dbQuery("SELECT count(*) AS n FROM todo")).toEqual([
+      { n: 0 },
+    ]);
+    expect(broadcasts).toEqual([]);
+    listener.close();
+  });
+});
+
+
+describe("isSingleStatement", () => {
+  it("accepts one statement with or without trailing semicolons", () => {
+    expect(isSingleStatement("SELECT 1")).toBe(true);
+    expect(isSingleStatement("  SELECT 1;  ")).toBe(true);
+    expect(isSingleStatement("SELECT 1;;")).toBe(true);
+  });
+
+  it("rejects scripts", () => {
+    expect(isSingleStatement("SELECT 1; SELECT 2")).toBe(false);
+    expect(isSingleStatement("SELECT 1; DROP TABLE todo;")).toBe(false);
+  });
+
+  it("ignores semicolons in literals, identifiers and comments", () => {
+    expect(isSingleStatement("SELECT ';' AS a")).toBe(true);
+    expect(isSingleStatement("SELECT 'it''s; fine'")).toBe(true);
+    expect(isSingleStatement('SELECT "a;b" FROM t')).toBe(true);
+    expect(isSingleStatement("SELECT `a;b`, [c;d] FROM t")).toBe(true);
+    expect(isSingleStatement("SELECT 1 -- trailing; comment")).toBe(true);
+    expect(isSingleStatement("SELECT /* ; */ 1")).toBe(true);
+  });
+
+  it("still sees statements after comments", () => {
+    expect(isSingleStatement("SELECT 1 -- comment\n; SELECT 2")).toBe(false);
+    expect(isSingleStatement("SELECT /* ; */ 1; SELECT 2")).toBe(false);
+  });
+
+  it("rejects unterminated literals and comments", () => {
+    expect(isSingleStatement("SELECT 'open")).toBe(false);
+    expect(isSingleStatement("SELECT 1 /* open")).toBe(false);
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import type { ResyncInfo } from "../src/worker/CRSqliteWorkerClientBase";
+import { waitFor } from "./helpers";
+import { startWorker, TestClient, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+async function hasTodo(db: DB, id: string): Promise<boolean> {
+  const rows = await db.execA("SELECT 1 FROM todo WHERE id = ?", [id]);
+  return rows.length > 0;
+}
+
+// Writes on the tab's own database, then waits until the worker has it
+async function write(tab: TestClient, id: string): Promise<void> {
+  await tab.localDb.exec("INSERT INTO todo VALUES (?, 'text', 0)", [id]);
+  tab.triggerSync();
+  await waitFor(() => hasTodo(host!.db, id));
+}
+
+async function workerVersion(): Promise<number> {
+  const [[version]] = await host!.db.execA<[number]>(
+    "SELECT crsql_db_version()"
+  );
+  return version;
+}
+
+function lastSyncTotal(tab: TestClient): number | undefined {
+  return tab.responses.filter((r) => r.type === "sync-complete").pop()?.total;
+}
+
+describe("gap resync", () => {
+  it("only fetches what came after the broadcasts a tab applied", async () => {
+    host = await startWorker();
+    const a = await host.connect();
+    const b = await host.connect();
+    const resyncs: ResyncInfo[] = [];
+    b.onResynced((info) => resyncs.push(info));
+
+    for (let i = 0; i < 10; i++) await write(a, `t${i}`);
+    await waitFor(() => hasTodo(b.localDb, "t9"));
+
+    const before = await workerVersion();
+    b.dropBroadcasts = 1;
+    await write(a, "missed");
+    await write(a, "after");
+
+    await waitFor(() => resyncs.length === 1);
+    expect(resyncs[0].reason).toBe("gap");
+    expect(await hasTodo(b.localDb, "missed")).toBe(true);
+    const [[missing]] = await host.db.execA<[number]>(
+      "SELECT count(*) FROM crsql_changes WHERE db_version > ?",
+      [before]
+    );
+    expect(lastSyncTotal(b)).toBe(missing);
+  });
+
+  it("doesn't fetch the tab's own changes again", async () => {
+    host = await startWorker();
+    const a = await host.connect();
+    const b = await host.connect();
+    const resyncs: ResyncInfo[] = [];
+    a.onResynced((info) => resyncs.push(info));
+
+    for (let i = 0; i < 10; i++) await write(a, `t${i}`);
+    // Writes on the worker's database are broadcast with their versions too
+    await a.dbExec("INSERT INTO todo VALUES ('worker', 'text', 0)");
+
+    const before = await workerVersion();
+    a.dropBroadcasts = 1;
+    await write(b, "missed");
+    await write(b, "after");
+
+    await waitFor(() => resyncs.length === 1);
+    expect(await hasTodo(a.localDb, "missed")).toBe(true);
+    const [[missing]] = await host.db.execA<[number]>(
+      "SELECT count(*) FROM crsql_changes WHERE db_version > ?",
+      [before]
+    );
+    expect(lastSyncTotal(a)).toBe(missing);
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { waitFor } from "./helpers";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+describe("live queries", () => {
+  it("push the initial rows and each changed result", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    const writer = await host.connect();
+    const results: { id: string }[][] = [];
+
+    const unsubscribe = await tab.subscribe<{ id: string }>(
+      "SELECT id FROM todo WHERE complete = ? ORDER BY id",
+      [0],
+      (rows) => results.push(rows)
+    );
+    await waitFor(() => results.length === 1);
+    expect(results[0]).toEqual([]);
+
+    // A write through the worker and one merged from a tab
+    await writer.dbExec("INSERT INTO todo VALUES ('a', 'text', 0)");
+    await waitFor(() => results.length === 2);
+    await writer.localDb.exec("INSERT INTO todo VALUES ('b', 'text', 0)");
+    writer.triggerSync();
+    await waitFor(() => results.length === 3);
+    expect(results[2]).toEqual([{ id: "a" }, { id: "b" }]);
+
+    // Same result, nothing pushed
+    await writer.dbExec("UPDATE todo SET text = 'other' WHERE id = 'a'");
+    // Gone after unsubscribing
+    await unsubscribe();
+    await writer.dbExec("INSERT INTO todo VALUES ('c', 'text', 0)");
+    await writer.dbExecA("SELECT 1");
+    expect(results).toHaveLength(3);
+  });
+});
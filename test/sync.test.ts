@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { DB } from "@vlcn.io/crsqlite-wasm";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+async function insertTodos(db: DB, count: number): Promise<void> {
+  await db.tx(async (tx) => {
+    for (let i = 0; i < count; i++) {
+      await tx.exec("INSERT INTO todo VALUES (?, 'text', 0)", [`t${i}`]);
+    }
+  });
+}
+
+describe("requestSync", () => {
+  it("resolves once the worker's changes are applied", async () => {
+    host = await startWorker();
+    await insertTodos(host.db, 3);
+
+    const tab = await host.connect();
+    const [[count]] = await tab.localDb.execA<[number]>(
+      "SELECT count(*) FROM todo"
+    );
+    expect(count).toBe(3);
+    expect(await tab.requestSync()).toBe(0);
+  });
+
+  it("settles concurrent syncs by their own request ids", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    await insertTodos(host.db, 2);
+
+    const results = await Promise.all([tab.requestSync(), tab.requestSync()]);
+    // Two rows of two columns, the second sync merges them again
+    expect(results[0]).toBe(4);
+    expect(results[1]).toBeLessThanOrEqual(4);
+    const ids = tab.responses
+      .filter((r) => r.type === "sync-complete")
+      .map((r) => r.requestId);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it("gets an error reply for its request from a stopped worker", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    host.worker.stop();
+
+    await expect(
+      tab.dbExec("SELECT 1", [], { timeoutMs: 1000 })
+    ).rejects.toThrow("Worker not started");
+    await expect(tab.requestSync({ timeoutMs: 1000 })).rejects.toThrow(
+      "Worker not started"
+    );
+  });
+});
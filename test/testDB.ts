@@ -0,0 +1,36 @@
+// In-memory cr-sqlite databases for the tests, which run in Node
+import "fake-indexeddb/auto";
+import { readFileSync } from "fs";
+import initWasm, { DB, SQLite3 } from "@vlcn.io/crsqlite-wasm";
+
+const WASM_URL = new URL(
+  "../node_modules/@vlcn.io/crsqlite-wasm/dist/crsqlite.wasm",
+  import.meta.url
+);
+
+let sqlite: Promise<SQLite3> | null = null;
+
+// Node's fetch can't read file: URLs, hand the wasm over directly
+function loadSQLite(): Promise<SQLite3> {
+  if (!sqlite) {
+    const nodeFetch = globalThis.fetch;
+    globalThis.fetch = async (input, init) =>
+      String(input) === WASM_URL.href
+        ? new Response(readFileSync(WASM_URL), {
+            headers: { "Content-Type": "application/wasm" },
+          })
+        : nodeFetch(input, init);
+    sqlite = initWasm(() => WASM_URL.href);
+  }
+  return sqlite;
+}
+
+// Fresh database with the todo table as a crr
+export async function openTestDB(): Promise<DB> {
+  const db = await (await loadSQLite()).open(":memory:");
+  await db.exec(
+    "CREATE TABLE IF NOT EXISTS todo (id PRIMARY KEY NOT NULL, text, complete)"
+  );
+  await db.exec("SELECT crsql_as_crr('todo')");
+  return db;
+}
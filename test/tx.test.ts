@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { waitFor } from "./helpers";
+import { startWorker, TestWorker } from "./harness";
+
+let host: TestWorker | null = null;
+
+afterEach(() => {
+  host?.stop();
+  host = null;
+});
+
+describe("dbTx", () => {
+  it("runs the statements in order and returns each result", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    const other = await host.connect();
+
+    const results = await tab.dbTx([
+      { sql: "INSERT INTO todo VALUES ('a', 'first', 0)" },
+      { sql: "UPDATE todo SET text = 'second' WHERE id = 'a'" },
+      { sql: "SELECT id, text FROM todo", resultMode: "rows" },
+    ]);
+    expect(results).toEqual([null, null, [["a", "second"]]]);
+
+    await waitFor(async () => {
+      const rows = await other.localDb.execA("SELECT text FROM todo");
+      return rows[0]?.[0] === "second";
+    });
+  });
+
+  it("rolls back all statements when one fails", async () => {
+    host = await startWorker();
+    const tab = await host.connect();
+    const other = await host.connect();
+
+    await expect(
+      tab.dbTx([
+        { sql: "INSERT INTO todo VALUES ('a', 'text', 0)" },
+        { sql: "INSERT INTO todo VALUES ('a', 'duplicate', 0)" },
+      ])
+    ).rejects.toThrow();
+
+    expect(await tab.dbExecA("SELECT * FROM todo")).toEqual([]);
+
+    // Nothing was broadcast before the next write
+    await tab.dbExec("INSERT INTO todo VALUES ('b', 'text', 0)");
+    await waitFor(async () => {
+      const rows = await other.localDb.execA("SELECT id FROM todo");
+      return rows.length > 0;
+    });
+    expect(await other.localDb.execA("SELECT id FROM todo")).toEqual([["b"]]);
+  });
+});